@@ -1,32 +1,57 @@
+import { useEffect } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Navbar } from "@/components/navbar-fixed";
+import { useCart } from "@/lib/cart";
+import { useWishlist } from "@/lib/wishlist";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Products from "@/pages/products";
+import Category from "@/pages/category";
+import ProductDetail from "@/pages/product-detail";
 import Cart from "@/pages/cart";
 import Admin from "@/pages/admin";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import Addresses from "@/pages/addresses";
+import Orders from "@/pages/orders";
+import OrderDetail from "@/pages/order-detail";
+import Wishlist from "@/pages/wishlist";
+import SharedWishlist from "@/pages/shared-wishlist";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/products" component={Products} />
+      <Route path="/products/:id" component={ProductDetail} />
+      <Route path="/category/:slug" component={Category} />
       <Route path="/cart" component={Cart} />
       <Route path="/admin" component={Admin} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/account/addresses" component={Addresses} />
+      <Route path="/account/orders" component={Orders} />
+      <Route path="/account/orders/:id" component={OrderDetail} />
+      <Route path="/account/wishlist" component={Wishlist} />
+      <Route path="/wishlists/:token" component={SharedWishlist} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function App() {
+  const loadCart = useCart((state) => state.load);
+  const loadWishlist = useWishlist((state) => state.load);
+
+  useEffect(() => {
+    loadCart();
+    loadWishlist();
+  }, [loadCart, loadWishlist]);
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
@@ -0,0 +1,113 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { postalAddressSchema, type PostalAddress } from "@shared/schema";
+
+export interface AddressFormValues {
+  fullName: string;
+  company: string;
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+  phone: string;
+}
+
+export type AddressErrors = Partial<Record<keyof AddressFormValues, string>>;
+
+export const emptyAddress: AddressFormValues = {
+  fullName: "",
+  company: "",
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: "US",
+  phone: "",
+};
+
+export function toAddressFormValues(address: PostalAddress): AddressFormValues {
+  return {
+    fullName: address.fullName,
+    company: address.company ?? "",
+    line1: address.line1,
+    line2: address.line2 ?? "",
+    city: address.city,
+    region: address.region ?? "",
+    postalCode: address.postalCode ?? "",
+    country: address.country,
+    phone: address.phone ?? "",
+  };
+}
+
+// Runs the same checks as the server so mistakes show up next to the field
+export function validateAddress(values: AddressFormValues): { address: PostalAddress | null; errors: AddressErrors } {
+  const result = postalAddressSchema.safeParse(values);
+  if (result.success) {
+    return { address: result.data, errors: {} };
+  }
+  const errors: AddressErrors = {};
+  for (const issue of result.error.errors) {
+    const field = issue.path[0] as keyof AddressFormValues;
+    errors[field] ??= issue.message;
+  }
+  return { address: null, errors };
+}
+
+export function formatAddressLines(address: PostalAddress): string[] {
+  return [
+    address.fullName,
+    address.company,
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postalCode].filter(Boolean).join(" "),
+    address.country,
+  ].filter((line): line is string => !!line);
+}
+
+interface AddressFormProps {
+  value: AddressFormValues;
+  onChange: (value: AddressFormValues) => void;
+  errors?: AddressErrors;
+  onBlur?: () => void;
+  // Keeps ids unique when a page shows two forms, e.g. shipping and billing
+  idPrefix: string;
+}
+
+export function AddressForm({ value, onChange, errors = {}, onBlur, idPrefix }: AddressFormProps) {
+  const field = (name: keyof AddressFormValues, label: string, props: { placeholder?: string; className?: string; maxLength?: number } = {}) => (
+    <div className={props.className}>
+      <Label htmlFor={`${idPrefix}-${name}`} className="text-sm">{label}</Label>
+      <Input
+        id={`${idPrefix}-${name}`}
+        placeholder={props.placeholder}
+        maxLength={props.maxLength}
+        className={name === "country" || name === "region" ? "uppercase" : undefined}
+        value={value[name]}
+        onChange={(e) => onChange({ ...value, [name]: e.target.value })}
+        onBlur={onBlur}
+        aria-invalid={!!errors[name]}
+        data-testid={`${idPrefix}-${name}-input`}
+      />
+      {errors[name] && (
+        <p className="text-xs text-destructive mt-1" data-testid={`${idPrefix}-${name}-error`}>{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-6 gap-2">
+      {field("fullName", "Full name", { className: "col-span-6" })}
+      {field("company", "Company (optional)", { className: "col-span-6" })}
+      {field("line1", "Street address", { className: "col-span-6" })}
+      {field("line2", "Apartment, suite, etc. (optional)", { className: "col-span-6" })}
+      {field("city", "City", { className: "col-span-6" })}
+      {field("country", "Country", { className: "col-span-2", maxLength: 2, placeholder: "US" })}
+      {field("region", "State", { className: "col-span-2" })}
+      {field("postalCode", "Postal code", { className: "col-span-2" })}
+      {field("phone", "Phone (optional)", { className: "col-span-6" })}
+    </div>
+  );
+}
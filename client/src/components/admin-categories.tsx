@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CategoryIcon, categoryIconOptions } from "@/components/category-icon";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toastError } from "@/lib/queryClient";
+import { childCategories, descendantCategoryIds, slugify, type Category, type ProductFacets, type TaxClass } from "@shared/schema";
+
+// Select items can't have an empty value, so standard rate and top level get sentinels
+const STANDARD_CLASS = "standard";
+const TOP_LEVEL = "top-level";
+
+interface CategoryFormValues {
+  name: string;
+  slug: string;
+  parentId: string;
+  description: string;
+  icon: string;
+  taxClassId: string;
+}
+
+const emptyCategory: CategoryFormValues = {
+  name: "",
+  slug: "",
+  parentId: TOP_LEVEL,
+  description: "",
+  icon: categoryIconOptions[0].value,
+  taxClassId: STANDARD_CLASS,
+};
+
+// Parents before children, each with its depth in the tree
+function flattenTree(categories: Category[], parentId: string | null = null, depth = 0): { category: Category; depth: number }[] {
+  return childCategories(categories, parentId).flatMap((category) => [
+    { category, depth },
+    ...flattenTree(categories, category.id, depth + 1),
+  ]);
+}
+
+// Carries the server's count of products blocking a delete
+class DeleteCategoryError extends Error {
+  constructor(message: string, public productCount?: number) {
+    super(message);
+  }
+}
+
+interface AdminCategoriesProps {
+  categories: Category[];
+  taxClasses: TaxClass[];
+}
+
+export function AdminCategories({ categories, taxClasses }: AdminCategoriesProps) {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+  const [blockingCount, setBlockingCount] = useState<number | null>(null);
+  const form = useForm<CategoryFormValues>({ defaultValues: emptyCategory });
+
+  // Same counts as the storefront's category tiles
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets"],
+    queryFn: async () => {
+      const response = await fetch('/api/products/facets');
+      if (!response.ok) {
+        throw new Error('Failed to fetch facets');
+      }
+      return response.json();
+    },
+  });
+  const productCount = (id: string) => facets?.categories.find((f) => f.categoryId === id)?.count ?? 0;
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingCategory(null);
+    form.reset(emptyCategory);
+  };
+
+  const openEdit = (category: Category) => {
+    setEditingCategory(category);
+    form.reset({
+      name: category.name,
+      slug: category.slug,
+      parentId: category.parentId ?? TOP_LEVEL,
+      description: category.description ?? "",
+      icon: category.icon ?? emptyCategory.icon,
+      taxClassId: category.taxClassId ?? STANDARD_CLASS,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openDelete = (category: Category) => {
+    setDeletingCategory(category);
+    setReassignTo("");
+    setBlockingCount(productCount(category.id) || null);
+  };
+
+  const closeDelete = () => {
+    setDeletingCategory(null);
+    setReassignTo("");
+    setBlockingCount(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: CategoryFormValues) => {
+      const payload = {
+        name: values.name.trim(),
+        slug: values.slug.trim() || undefined,
+        parentId: values.parentId === TOP_LEVEL ? null : values.parentId,
+        description: values.description.trim() || null,
+        icon: values.icon,
+        taxClassId: values.taxClassId === STANDARD_CLASS ? null : values.taxClassId,
+      };
+      return editingCategory
+        ? apiRequest("PUT", `/api/categories/${editingCategory.id}`, payload)
+        : apiRequest("POST", "/api/categories", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: editingCategory ? "Category updated" : "Category created",
+        description: "The category has been saved.",
+      });
+      closeDialog();
+    },
+    onError: toastError("Error saving category"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: string; reassignTo: string }) => {
+      const query = reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : "";
+      const response = await fetch(`/api/categories/${id}${query}`, {
+        method: "DELETE",
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new DeleteCategoryError(data.message || "Failed to delete category", data.productCount);
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Category moved to trash",
+        description: "You can restore it from the Trash tab.",
+      });
+      closeDelete();
+    },
+    onError: (error: any) => {
+      // The storefront counts can miss hidden products; ask where to move them
+      if (error instanceof DeleteCategoryError && error.productCount) {
+        setBlockingCount(error.productCount);
+        return;
+      }
+      toastError("Error deleting category")(error);
+    },
+  });
+
+  const taxClassName = (id: string | null) => id ? taxClasses.find((c) => c.id === id)?.name ?? "Unknown class" : "Standard";
+  const reassignOptions = categories.filter((category) => category.id !== deletingCategory?.id);
+  const tree = flattenTree(categories);
+  // A category can't move under itself or one of its own subcategories
+  const excludedParents = editingCategory ? descendantCategoryIds(categories, editingCategory.id) : [];
+  const parentOptions = tree.filter(({ category }) => !excludedParents.includes(category.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold">Category Management</h3>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : closeDialog()}>
+          <DialogTrigger asChild>
+            <Button data-testid="add-category-button">
+              <Plus className="mr-2" size={16} />
+              Add Category
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingCategory ? "Edit Category" : "Add Category"}</DialogTitle>
+              <DialogDescription>
+                Categories group products in the storefront and can set their tax class.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  placeholder="e.g. Electronics"
+                  {...form.register("name", { required: true })}
+                  data-testid="category-name-input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="category-slug">Slug</Label>
+                  <Input
+                    id="category-slug"
+                    placeholder={slugify(form.watch("name")) || "e.g. electronics"}
+                    {...form.register("slug")}
+                    data-testid="category-slug-input"
+                  />
+                </div>
+                <div>
+                  <Label>Parent</Label>
+                  <Select value={form.watch("parentId")} onValueChange={(value) => form.setValue("parentId", value)}>
+                    <SelectTrigger data-testid="category-parent-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                      {parentOptions.map(({ category, depth }) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {"\u00a0\u00a0".repeat(depth)}{category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="category-description">Description</Label>
+                <Textarea id="category-description" {...form.register("description")} data-testid="category-description-input" />
+              </div>
+              <div>
+                <Label>Icon</Label>
+                <div className="grid grid-cols-6 gap-2 mt-1">
+                  {categoryIconOptions.map(({ value, label, Icon }) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      variant={form.watch("icon") === value ? "default" : "outline"}
+                      size="icon"
+                      title={label}
+                      aria-label={label}
+                      onClick={() => form.setValue("icon", value)}
+                      data-testid={`category-icon-${value.replace("fas fa-", "")}`}
+                    >
+                      <Icon size={18} />
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Tax class</Label>
+                <Select value={form.watch("taxClassId")} onValueChange={(value) => form.setValue("taxClassId", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={STANDARD_CLASS}>Standard</SelectItem>
+                    {taxClasses.map((taxClass) => (
+                      <SelectItem key={taxClass.id} value={taxClass.id}>{taxClass.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="save-category">
+                  {saveMutation.isPending ? "Saving..." : "Save Category"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {categories.length === 0 ? (
+        <p className="text-muted-foreground">No categories yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Tax class</TableHead>
+              <TableHead className="text-right">Products</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tree.map(({ category, depth }) => (
+              <TableRow key={category.id} data-testid={`category-row-${category.id}`}>
+                <TableCell>
+                  <div className="flex items-center space-x-3" style={{ paddingLeft: depth * 24 }}>
+                    <div className="w-9 h-9 bg-primary/10 rounded-full flex items-center justify-center">
+                      <CategoryIcon icon={category.icon} className="text-primary" size={16} />
+                    </div>
+                    <span className="font-semibold" data-testid={`category-name-${category.id}`}>{category.name}</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-muted-foreground font-mono text-xs">{category.slug}</TableCell>
+                <TableCell className="text-muted-foreground" data-testid={`category-description-${category.id}`}>
+                  {category.description}
+                </TableCell>
+                <TableCell>{taxClassName(category.taxClassId)}</TableCell>
+                <TableCell className="text-right" data-testid={`category-count-${category.id}`}>
+                  {productCount(category.id)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(category)} data-testid={`edit-category-${category.id}`}>
+                      <Edit size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openDelete(category)}
+                      className="text-destructive hover:text-destructive"
+                      data-testid={`delete-category-${category.id}`}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={deletingCategory !== null} onOpenChange={(open) => !open && closeDelete()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete "{deletingCategory?.name}"?</DialogTitle>
+            <DialogDescription>
+              The category moves to the trash and can be restored from there. Its subcategories move up a level.
+            </DialogDescription>
+          </DialogHeader>
+          {blockingCount !== null && (
+            reassignOptions.length === 0 ? (
+              <p className="text-sm text-destructive">
+                {blockingCount === 1 ? "1 product uses" : `${blockingCount} products use`} this category.
+                Create another category to move them to first.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label>
+                  {blockingCount === 1 ? "1 product uses" : `${blockingCount} products use`} this category. Move them to:
+                </Label>
+                <Select value={reassignTo} onValueChange={setReassignTo}>
+                  <SelectTrigger data-testid="reassign-category-select">
+                    <SelectValue placeholder="Choose a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reassignOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          )}
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={closeDelete}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingCategory && deleteMutation.mutate({ id: deletingCategory.id, reassignTo })}
+              disabled={deleteMutation.isPending || (blockingCount !== null && !reassignTo)}
+              data-testid="confirm-delete-category"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Category"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
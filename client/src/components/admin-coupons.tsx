@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Edit, Plus, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Category, Coupon, CouponType, Paginated, ProductListItem } from "@shared/schema";
+
+interface AdminCouponsProps {
+  categories: Category[];
+}
+
+// Form fields are kept as strings so that empty inputs mean "no limit"
+interface CouponFormValues {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  minSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  productIds: string[];
+  categoryIds: string[];
+  isActive: boolean;
+}
+
+const emptyCoupon: CouponFormValues = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  minSubtotal: "",
+  startsAt: "",
+  endsAt: "",
+  usageLimit: "",
+  perCustomerLimit: "",
+  productIds: [],
+  categoryIds: [],
+  isActive: true,
+};
+
+// Date inputs work in the admin's local time; a coupon runs to the end of its last day
+function toDateInput(date: Date | string | null) {
+  if (!date) return "";
+  const d = new Date(date);
+  return [d.getFullYear(), String(d.getMonth() + 1).padStart(2, "0"), String(d.getDate()).padStart(2, "0")].join("-");
+}
+
+const fromDateInput = (value: string, time: string) => value ? new Date(`${value}T${time}`).toISOString() : null;
+
+function toFormValues(coupon: Coupon): CouponFormValues {
+  return {
+    code: coupon.code,
+    description: coupon.description ?? "",
+    type: coupon.type as CouponType,
+    value: coupon.value,
+    minSubtotal: coupon.minSubtotal ?? "",
+    startsAt: toDateInput(coupon.startsAt),
+    endsAt: toDateInput(coupon.endsAt),
+    usageLimit: coupon.usageLimit?.toString() ?? "",
+    perCustomerLimit: coupon.perCustomerLimit?.toString() ?? "",
+    productIds: coupon.productIds,
+    categoryIds: coupon.categoryIds,
+    isActive: coupon.isActive,
+  };
+}
+
+function toPayload(values: CouponFormValues) {
+  const optional = (value: string) => value.trim() === "" ? null : value;
+  return {
+    ...values,
+    description: optional(values.description),
+    value: values.type === "free_shipping" ? "0" : values.value,
+    minSubtotal: optional(values.minSubtotal),
+    startsAt: fromDateInput(values.startsAt, "00:00:00"),
+    endsAt: fromDateInput(values.endsAt, "23:59:59"),
+    usageLimit: values.usageLimit ? parseInt(values.usageLimit) : null,
+    perCustomerLimit: values.perCustomerLimit ? parseInt(values.perCustomerLimit) : null,
+  };
+}
+
+function describeCoupon(coupon: Pick<Coupon, "type" | "value">) {
+  if (coupon.type === "percentage") return `${parseFloat(coupon.value)}% off`;
+  if (coupon.type === "fixed") return `$${parseFloat(coupon.value).toFixed(2)} off`;
+  return "Free shipping";
+}
+
+export function AdminCoupons({ categories }: AdminCouponsProps) {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [productSearch, setProductSearch] = useState("");
+  const form = useForm<CouponFormValues>({ defaultValues: emptyCoupon });
+  const type = form.watch("type");
+  const productIds = form.watch("productIds");
+  const categoryIds = form.watch("categoryIds");
+
+  const { data: coupons = [] } = useQuery<Coupon[]>({
+    queryKey: ["/api/coupons"],
+    queryFn: async () => {
+      const response = await fetch('/api/coupons', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch coupons');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: productResults } = useQuery<Paginated<ProductListItem>>({
+    queryKey: ["/api/products", "coupon-scope", productSearch],
+    queryFn: async () => {
+      const params = new URLSearchParams({ search: productSearch, pageSize: "8" });
+      const response = await fetch(`/api/products?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch products');
+      }
+      return response.json();
+    },
+    enabled: productSearch.trim().length > 1,
+  });
+
+  // Names for products already in scope, which may not be in the search results
+  const { data: scopedProducts = [] } = useQuery<ProductListItem[]>({
+    queryKey: ["/api/products", "coupon-scope-selected", productIds],
+    queryFn: async () => {
+      const results = await Promise.all(productIds.map(async (id) => {
+        const response = await fetch(`/api/products/${id}`);
+        return response.ok ? response.json() : { id, name: "Unavailable product" };
+      }));
+      return results;
+    },
+    enabled: isDialogOpen && productIds.length > 0,
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingCoupon(null);
+    setProductSearch("");
+    form.reset(emptyCoupon);
+  };
+
+  const saveCouponMutation = useMutation({
+    mutationFn: (values: CouponFormValues) => editingCoupon
+      ? apiRequest("PUT", `/api/coupons/${editingCoupon.id}`, toPayload(values))
+      : apiRequest("POST", "/api/coupons", toPayload(values)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/coupons"] });
+      toast({
+        title: editingCoupon ? "Coupon updated" : "Coupon created",
+        description: "The coupon has been saved.",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving coupon",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCouponMutation = useMutation({
+    mutationFn: (couponId: string) => apiRequest("DELETE", `/api/coupons/${couponId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/coupons"] });
+      toast({
+        title: "Coupon deleted",
+        description: "The coupon has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting coupon",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (field: "productIds" | "categoryIds", id: string) => {
+    const current = form.getValues(field);
+    form.setValue(field, current.includes(id) ? current.filter(c => c !== id) : [...current, id]);
+  };
+
+  const scopeLabel = (coupon: Coupon) => {
+    const parts = [
+      ...coupon.categoryIds.map(id => categories.find(c => c.id === id)?.name ?? "Unknown category"),
+      ...(coupon.productIds.length ? [`${coupon.productIds.length} product(s)`] : []),
+    ];
+    return parts.length ? parts.join(", ") : "Whole cart";
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold">Promotions</h3>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : closeDialog()}>
+          <DialogTrigger asChild>
+            <Button data-testid="add-coupon-button">
+              <Plus className="mr-2" size={16} />
+              Add Coupon
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCoupon ? "Edit Coupon" : "Add Coupon"}</DialogTitle>
+              <DialogDescription>
+                Leave limits and dates empty for no restriction.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={form.handleSubmit((values) => saveCouponMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="coupon-code">Code</Label>
+                  <Input id="coupon-code" className="uppercase" {...form.register("code")} data-testid="coupon-code-input" />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={type} onValueChange={(value) => form.setValue("type", value as CouponType)}>
+                    <SelectTrigger data-testid="coupon-type-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">Percentage off</SelectItem>
+                      <SelectItem value="fixed">Fixed amount off</SelectItem>
+                      <SelectItem value="free_shipping">Free shipping</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="coupon-description">Description</Label>
+                <Input id="coupon-description" {...form.register("description")} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {type !== "free_shipping" && (
+                  <div>
+                    <Label htmlFor="coupon-value">{type === "percentage" ? "Percent off" : "Amount off ($)"}</Label>
+                    <Input id="coupon-value" type="number" step="0.01" {...form.register("value")} data-testid="coupon-value-input" />
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="coupon-min-subtotal">Minimum subtotal ($)</Label>
+                  <Input id="coupon-min-subtotal" type="number" step="0.01" {...form.register("minSubtotal")} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="coupon-starts">Starts</Label>
+                  <Input id="coupon-starts" type="date" {...form.register("startsAt")} />
+                </div>
+                <div>
+                  <Label htmlFor="coupon-ends">Ends</Label>
+                  <Input id="coupon-ends" type="date" {...form.register("endsAt")} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="coupon-usage-limit">Total uses</Label>
+                  <Input id="coupon-usage-limit" type="number" min="1" {...form.register("usageLimit")} />
+                </div>
+                <div>
+                  <Label htmlFor="coupon-customer-limit">Uses per customer</Label>
+                  <Input id="coupon-customer-limit" type="number" min="1" {...form.register("perCustomerLimit")} />
+                </div>
+              </div>
+
+              <div>
+                <Label className="block mb-2">Limit to categories</Label>
+                <div className="flex flex-wrap gap-2">
+                  {categories.map((category) => (
+                    <Badge
+                      key={category.id}
+                      variant={categoryIds.includes(category.id) ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => toggle("categoryIds", category.id)}
+                    >
+                      {category.name}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label className="block mb-2">Limit to products</Label>
+                {productIds.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {productIds.map((id) => (
+                      <Badge key={id} variant="secondary" className="gap-1">
+                        {scopedProducts.find(p => p.id === id)?.name ?? "Loading..."}
+                        <X size={12} className="cursor-pointer" onClick={() => toggle("productIds", id)} />
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  placeholder="Search products to add"
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
+                  data-testid="coupon-product-search"
+                />
+                {productSearch.trim().length > 1 && productResults && (
+                  <div className="border border-border rounded-md mt-1 max-h-40 overflow-y-auto">
+                    {productResults.items.map((product) => (
+                      <button
+                        key={product.id}
+                        type="button"
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-muted flex justify-between"
+                        onClick={() => toggle("productIds", product.id)}
+                      >
+                        {product.name}
+                        {productIds.includes(product.id) && <span className="text-primary">Added</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="coupon-active"
+                  checked={form.watch("isActive")}
+                  onCheckedChange={(checked) => form.setValue("isActive", checked)}
+                />
+                <Label htmlFor="coupon-active">Active</Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveCouponMutation.isPending} data-testid="save-coupon">
+                  {saveCouponMutation.isPending ? "Saving..." : "Save Coupon"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {coupons.length === 0 ? (
+        <p className="text-muted-foreground">No coupons yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {coupons.map((coupon) => (
+            <Card key={coupon.id} className="p-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center space-x-3 mb-1">
+                    <Tag size={16} className="text-primary" />
+                    <span className="font-semibold font-mono" data-testid={`coupon-code-${coupon.id}`}>{coupon.code}</span>
+                    <Badge variant={coupon.isActive ? "default" : "outline"}>
+                      {coupon.isActive ? "active" : "inactive"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm">
+                    {describeCoupon(coupon)}
+                    {coupon.minSubtotal && ` on orders over $${parseFloat(coupon.minSubtotal).toFixed(2)}`}
+                    {" · "}{scopeLabel(coupon)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Used {coupon.usageCount}{coupon.usageLimit ? ` of ${coupon.usageLimit}` : ""} times
+                    {coupon.perCustomerLimit && ` · ${coupon.perCustomerLimit} per customer`}
+                    {coupon.startsAt && ` · from ${new Date(coupon.startsAt).toLocaleDateString()}`}
+                    {coupon.endsAt && ` · until ${new Date(coupon.endsAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditingCoupon(coupon);
+                      form.reset(toFormValues(coupon));
+                      setIsDialogOpen(true);
+                    }}
+                    data-testid={`edit-coupon-${coupon.id}`}
+                  >
+                    <Edit size={16} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteCouponMutation.mutate(coupon.id)}
+                    className="text-destructive hover:text-destructive"
+                    data-testid={`delete-coupon-${coupon.id}`}
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,468 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { Edit, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toastError } from "@/lib/queryClient";
+import { shippingRateTypes, type ShippingMethod, type ShippingZone, type ShippingZoneWithMethods } from "@shared/schema";
+
+const rateTypeLabels: Record<typeof shippingRateTypes[number], string> = {
+  flat: "Flat rate",
+  weight: "By weight",
+  price_tiered: "By order value",
+  free_over: "Free over amount",
+};
+
+interface ZoneFormValues {
+  name: string;
+  countries: string;
+  regions: string;
+  isActive: boolean;
+}
+
+const emptyZone: ZoneFormValues = {
+  name: "",
+  countries: "",
+  regions: "",
+  isActive: true,
+};
+
+interface MethodFormValues {
+  name: string;
+  description: string;
+  rateType: typeof shippingRateTypes[number];
+  baseRate: string;
+  perKgRate: string;
+  freeThreshold: string;
+  tiers: { minSubtotal: string; rate: string }[];
+  minDays: string;
+  maxDays: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const emptyMethod: MethodFormValues = {
+  name: "",
+  description: "",
+  rateType: "flat",
+  baseRate: "",
+  perKgRate: "",
+  freeThreshold: "",
+  tiers: [],
+  minDays: "",
+  maxDays: "",
+  sortOrder: "0",
+  isActive: true,
+};
+
+// "us, ca" -> ["US", "CA"]
+const splitCodes = (value: string) => value.split(",").map((code) => code.trim()).filter(Boolean);
+
+const optionalInt = (value: string) => value.trim() === "" ? null : parseInt(value);
+
+export function AdminShipping() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isZoneDialogOpen, setIsZoneDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null);
+  // The zone a new method is added to, or the method being edited
+  const [methodZoneId, setMethodZoneId] = useState<string | null>(null);
+  const [editingMethod, setEditingMethod] = useState<ShippingMethod | null>(null);
+  const zoneForm = useForm<ZoneFormValues>({ defaultValues: emptyZone });
+  const methodForm = useForm<MethodFormValues>({ defaultValues: emptyMethod });
+  const tiers = useFieldArray({ control: methodForm.control, name: "tiers" });
+  const rateType = methodForm.watch("rateType");
+
+  const { data: zones = [] } = useQuery<ShippingZoneWithMethods[]>({
+    queryKey: ["/api/shipping/zones"],
+    queryFn: async () => {
+      const response = await fetch('/api/shipping/zones', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch shipping zones');
+      }
+      return response.json();
+    },
+  });
+
+  const closeZoneDialog = () => {
+    setIsZoneDialogOpen(false);
+    setEditingZone(null);
+    zoneForm.reset(emptyZone);
+  };
+
+  const closeMethodDialog = () => {
+    setMethodZoneId(null);
+    setEditingMethod(null);
+    methodForm.reset(emptyMethod);
+  };
+
+  const saveZoneMutation = useMutation({
+    mutationFn: (values: ZoneFormValues) => {
+      const payload = {
+        name: values.name,
+        countries: splitCodes(values.countries),
+        regions: splitCodes(values.regions),
+        isActive: values.isActive,
+      };
+      return editingZone
+        ? apiRequest("PUT", `/api/shipping/zones/${editingZone.id}`, payload)
+        : apiRequest("POST", "/api/shipping/zones", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/zones"] });
+      toast({
+        title: editingZone ? "Shipping zone updated" : "Shipping zone created",
+        description: "The shipping zone has been saved.",
+      });
+      closeZoneDialog();
+    },
+    onError: toastError("Error saving shipping zone"),
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shipping/zones/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/zones"] });
+    },
+    onError: toastError("Error deleting shipping zone"),
+  });
+
+  const saveMethodMutation = useMutation({
+    mutationFn: (values: MethodFormValues) => {
+      const payload = {
+        name: values.name,
+        description: values.description || null,
+        rateType: values.rateType,
+        baseRate: values.baseRate || "0",
+        perKgRate: values.perKgRate || "0",
+        freeThreshold: values.freeThreshold || null,
+        tiers: values.tiers.map(({ minSubtotal, rate }) => ({ minSubtotal, rate })),
+        minDays: optionalInt(values.minDays),
+        maxDays: optionalInt(values.maxDays),
+        sortOrder: parseInt(values.sortOrder) || 0,
+        isActive: values.isActive,
+      };
+      return editingMethod
+        ? apiRequest("PUT", `/api/shipping/methods/${editingMethod.id}`, payload)
+        : apiRequest("POST", `/api/shipping/zones/${methodZoneId}/methods`, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/zones"] });
+      toast({
+        title: editingMethod ? "Shipping method updated" : "Shipping method created",
+        description: "The shipping method has been saved.",
+      });
+      closeMethodDialog();
+    },
+    onError: toastError("Error saving shipping method"),
+  });
+
+  const deleteMethodMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shipping/methods/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shipping/zones"] });
+    },
+    onError: toastError("Error deleting shipping method"),
+  });
+
+  const describeRate = (method: ShippingMethod) => {
+    const base = `$${parseFloat(method.baseRate).toFixed(2)}`;
+    switch (method.rateType) {
+      case "weight":
+        return `${base} + $${parseFloat(method.perKgRate).toFixed(2)}/kg`;
+      case "price_tiered":
+        return `${method.tiers.length} price tier${method.tiers.length === 1 ? "" : "s"}`;
+      case "free_over":
+        return `${base}, free over $${parseFloat(method.freeThreshold ?? "0").toFixed(2)}`;
+      default:
+        return base;
+    }
+  };
+
+  const editMethod = (method: ShippingMethod) => {
+    setEditingMethod(method);
+    setMethodZoneId(method.zoneId);
+    methodForm.reset({
+      name: method.name,
+      description: method.description ?? "",
+      rateType: method.rateType as MethodFormValues["rateType"],
+      baseRate: method.baseRate,
+      perKgRate: method.perKgRate,
+      freeThreshold: method.freeThreshold ?? "",
+      tiers: method.tiers.map(({ minSubtotal, rate }) => ({ minSubtotal: String(minSubtotal), rate: String(rate) })),
+      minDays: method.minDays?.toString() ?? "",
+      maxDays: method.maxDays?.toString() ?? "",
+      sortOrder: method.sortOrder.toString(),
+      isActive: method.isActive,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold">Shipping Zones</h3>
+        <Button onClick={() => setIsZoneDialogOpen(true)} data-testid="add-shipping-zone-button">
+          <Plus className="mr-2" size={16} />
+          Add Zone
+        </Button>
+      </div>
+
+      {zones.length === 0 ? (
+        <p className="text-muted-foreground">No shipping zones yet. Customers can't check out until one covers their address.</p>
+      ) : (
+        zones.map((zone) => (
+          <Card key={zone.id} className="p-4 space-y-3">
+            <div className="flex justify-between items-center">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold" data-testid={`shipping-zone-name-${zone.id}`}>{zone.name}</span>
+                  {!zone.isActive && <Badge variant="outline">inactive</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {zone.countries.join(", ")}
+                  {zone.regions.length > 0 && ` · ${zone.regions.join(", ")}`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMethodZoneId(zone.id)}
+                  data-testid={`add-shipping-method-${zone.id}`}
+                >
+                  <Plus className="mr-1" size={16} />
+                  Method
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditingZone(zone);
+                    zoneForm.reset({
+                      name: zone.name,
+                      countries: zone.countries.join(", "),
+                      regions: zone.regions.join(", "),
+                      isActive: zone.isActive,
+                    });
+                    setIsZoneDialogOpen(true);
+                  }}
+                  data-testid={`edit-shipping-zone-${zone.id}`}
+                >
+                  <Edit size={16} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteZoneMutation.mutate(zone.id)}
+                  className="text-destructive hover:text-destructive"
+                  data-testid={`delete-shipping-zone-${zone.id}`}
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+            </div>
+
+            {zone.methods.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No methods. Orders to this zone can't be placed.</p>
+            ) : (
+              zone.methods.map((method) => (
+                <div key={method.id} className="flex justify-between items-center border border-border rounded-md px-3 py-2">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium" data-testid={`shipping-method-name-${method.id}`}>{method.name}</span>
+                      <Badge variant="secondary">{rateTypeLabels[method.rateType as MethodFormValues["rateType"]]}</Badge>
+                      {!method.isActive && <Badge variant="outline">inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {describeRate(method)}
+                      {method.maxDays !== null && ` · ${method.minDays ?? method.maxDays}–${method.maxDays} days`}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => editMethod(method)}
+                      data-testid={`edit-shipping-method-${method.id}`}
+                    >
+                      <Edit size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMethodMutation.mutate(method.id)}
+                      className="text-destructive hover:text-destructive"
+                      data-testid={`delete-shipping-method-${method.id}`}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isZoneDialogOpen} onOpenChange={(open) => open ? setIsZoneDialogOpen(true) : closeZoneDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingZone ? "Edit Shipping Zone" : "Add Shipping Zone"}</DialogTitle>
+            <DialogDescription>
+              A zone limited to regions takes precedence over a zone covering the whole country.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={zoneForm.handleSubmit((values) => saveZoneMutation.mutate(values))} className="space-y-4">
+            <div>
+              <Label htmlFor="shipping-zone-name">Name</Label>
+              <Input id="shipping-zone-name" placeholder="e.g. Domestic" {...zoneForm.register("name")} data-testid="shipping-zone-name-input" />
+            </div>
+            <div>
+              <Label htmlFor="shipping-zone-countries">Countries</Label>
+              <Input id="shipping-zone-countries" placeholder="US, CA" className="uppercase" {...zoneForm.register("countries")} data-testid="shipping-zone-countries-input" />
+            </div>
+            <div>
+              <Label htmlFor="shipping-zone-regions">States / regions (optional)</Label>
+              <Input id="shipping-zone-regions" placeholder="AK, HI" className="uppercase" {...zoneForm.register("regions")} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="shipping-zone-active"
+                checked={zoneForm.watch("isActive")}
+                onCheckedChange={(checked) => zoneForm.setValue("isActive", checked)}
+              />
+              <Label htmlFor="shipping-zone-active">Active</Label>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={closeZoneDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveZoneMutation.isPending} data-testid="save-shipping-zone">
+                {saveZoneMutation.isPending ? "Saving..." : "Save Zone"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={methodZoneId !== null} onOpenChange={(open) => !open && closeMethodDialog()}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingMethod ? "Edit Shipping Method" : "Add Shipping Method"}</DialogTitle>
+            <DialogDescription>
+              Rates are charged per order and calculated on the subtotal after discounts.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={methodForm.handleSubmit((values) => saveMethodMutation.mutate(values))} className="space-y-4">
+            <div>
+              <Label htmlFor="shipping-method-name">Name</Label>
+              <Input id="shipping-method-name" placeholder="e.g. Express" {...methodForm.register("name")} data-testid="shipping-method-name-input" />
+            </div>
+            <div>
+              <Label htmlFor="shipping-method-description">Description</Label>
+              <Input id="shipping-method-description" {...methodForm.register("description")} />
+            </div>
+            <div>
+              <Label>Rate type</Label>
+              <Select
+                value={rateType}
+                onValueChange={(value) => methodForm.setValue("rateType", value as MethodFormValues["rateType"])}
+              >
+                <SelectTrigger data-testid="shipping-method-rate-type-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {shippingRateTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{rateTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="shipping-method-base-rate">
+                  {rateType === "price_tiered" ? "Rate below the first tier ($)" : "Rate ($)"}
+                </Label>
+                <Input id="shipping-method-base-rate" type="number" step="0.01" {...methodForm.register("baseRate")} data-testid="shipping-method-base-rate-input" />
+              </div>
+              {rateType === "weight" && (
+                <div>
+                  <Label htmlFor="shipping-method-per-kg">Per kg ($)</Label>
+                  <Input id="shipping-method-per-kg" type="number" step="0.01" {...methodForm.register("perKgRate")} />
+                </div>
+              )}
+              {rateType === "free_over" && (
+                <div>
+                  <Label htmlFor="shipping-method-free-threshold">Free from order of ($)</Label>
+                  <Input id="shipping-method-free-threshold" type="number" step="0.01" {...methodForm.register("freeThreshold")} />
+                </div>
+              )}
+            </div>
+            {rateType === "price_tiered" && (
+              <div className="space-y-2">
+                <Label>Price tiers</Label>
+                {tiers.fields.map((tier, index) => (
+                  <div key={tier.id} className="flex items-center gap-2">
+                    <Input type="number" step="0.01" placeholder="From order of ($)" {...methodForm.register(`tiers.${index}.minSubtotal`)} />
+                    <Input type="number" step="0.01" placeholder="Rate ($)" {...methodForm.register(`tiers.${index}.rate`)} />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => tiers.remove(index)}>
+                      <X size={16} />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => tiers.append({ minSubtotal: "", rate: "" })}>
+                  <Plus className="mr-1" size={16} />
+                  Add tier
+                </Button>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="shipping-method-min-days">Min days</Label>
+                <Input id="shipping-method-min-days" type="number" {...methodForm.register("minDays")} />
+              </div>
+              <div>
+                <Label htmlFor="shipping-method-max-days">Max days</Label>
+                <Input id="shipping-method-max-days" type="number" {...methodForm.register("maxDays")} />
+              </div>
+              <div>
+                <Label htmlFor="shipping-method-sort-order">Sort order</Label>
+                <Input id="shipping-method-sort-order" type="number" {...methodForm.register("sortOrder")} />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="shipping-method-active"
+                checked={methodForm.watch("isActive")}
+                onCheckedChange={(checked) => methodForm.setValue("isActive", checked)}
+              />
+              <Label htmlFor="shipping-method-active">Active</Label>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={closeMethodDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMethodMutation.isPending} data-testid="save-shipping-method">
+                {saveMethodMutation.isPending ? "Saving..." : "Save Method"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
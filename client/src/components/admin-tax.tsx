@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toastError } from "@/lib/queryClient";
+import type { TaxClass, TaxRule } from "@shared/schema";
+
+// Select items can't have an empty value, so standard rate gets a sentinel
+const STANDARD_CLASS = "standard";
+
+interface TaxRuleFormValues {
+  name: string;
+  taxClassId: string;
+  country: string;
+  region: string;
+  postalPrefix: string;
+  rate: string;
+  priceIncludesTax: boolean;
+  priority: string;
+  isActive: boolean;
+}
+
+const emptyRule: TaxRuleFormValues = {
+  name: "",
+  taxClassId: STANDARD_CLASS,
+  country: "US",
+  region: "",
+  postalPrefix: "",
+  rate: "",
+  priceIncludesTax: false,
+  priority: "0",
+  isActive: true,
+};
+
+type ExemptCustomer = { id: string; username: string; email: string };
+
+export function AdminTax() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<TaxRule | null>(null);
+  const [newClassName, setNewClassName] = useState("");
+  const [exemptEmail, setExemptEmail] = useState("");
+  const form = useForm<TaxRuleFormValues>({ defaultValues: emptyRule });
+
+  const authFetch = async <T,>(url: string): Promise<T> => {
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': token ? `Bearer ${token}` : '',
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}`);
+    }
+    return response.json();
+  };
+
+  const { data: taxClasses = [] } = useQuery<TaxClass[]>({
+    queryKey: ["/api/tax/classes"],
+    queryFn: () => authFetch<TaxClass[]>('/api/tax/classes'),
+  });
+
+  const { data: rules = [] } = useQuery<TaxRule[]>({
+    queryKey: ["/api/tax/rules"],
+    queryFn: () => authFetch<TaxRule[]>('/api/tax/rules'),
+  });
+
+  const { data: exemptCustomers = [] } = useQuery<ExemptCustomer[]>({
+    queryKey: ["/api/tax/exempt-customers"],
+    queryFn: () => authFetch<ExemptCustomer[]>('/api/tax/exempt-customers'),
+  });
+
+  const createClassMutation = useMutation({
+    mutationFn: (name: string) => apiRequest("POST", "/api/tax/classes", { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/classes"] });
+      setNewClassName("");
+    },
+    onError: toastError("Error creating tax class"),
+  });
+
+  const deleteClassMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/tax/classes/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/rules"] });
+      toast({
+        title: "Tax class deleted",
+        description: "Its products are now taxed at the standard rate.",
+      });
+    },
+    onError: toastError("Error deleting tax class"),
+  });
+
+  const closeRuleDialog = () => {
+    setIsRuleDialogOpen(false);
+    setEditingRule(null);
+    form.reset(emptyRule);
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: (values: TaxRuleFormValues) => {
+      const payload = {
+        ...values,
+        taxClassId: values.taxClassId === STANDARD_CLASS ? null : values.taxClassId,
+        region: values.region || null,
+        postalPrefix: values.postalPrefix || null,
+        priority: parseInt(values.priority) || 0,
+      };
+      return editingRule
+        ? apiRequest("PUT", `/api/tax/rules/${editingRule.id}`, payload)
+        : apiRequest("POST", "/api/tax/rules", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/rules"] });
+      toast({
+        title: editingRule ? "Tax rule updated" : "Tax rule created",
+        description: "The tax rule has been saved.",
+      });
+      closeRuleDialog();
+    },
+    onError: toastError("Error saving tax rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/tax/rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/rules"] });
+    },
+    onError: toastError("Error deleting tax rule"),
+  });
+
+  const setExemptMutation = useMutation({
+    mutationFn: ({ email, taxExempt }: { email: string; taxExempt: boolean }) =>
+      apiRequest("PUT", "/api/tax/exempt-customers", { email, taxExempt }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/exempt-customers"] });
+      setExemptEmail("");
+    },
+    onError: toastError("Error updating customer"),
+  });
+
+  const className = (id: string | null) => id ? taxClasses.find(c => c.id === id)?.name ?? "Unknown class" : "Standard";
+
+  const location = (rule: TaxRule) => [rule.country, rule.region, rule.postalPrefix && `${rule.postalPrefix}*`]
+    .filter(Boolean)
+    .join(" / ");
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-semibold">Tax Rules</h3>
+          <Dialog open={isRuleDialogOpen} onOpenChange={(open) => open ? setIsRuleDialogOpen(true) : closeRuleDialog()}>
+            <DialogTrigger asChild>
+              <Button data-testid="add-tax-rule-button">
+                <Plus className="mr-2" size={16} />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle>{editingRule ? "Edit Tax Rule" : "Add Tax Rule"}</DialogTitle>
+                <DialogDescription>
+                  The most specific matching rule applies: postal prefix, then state, then country.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={form.handleSubmit((values) => saveRuleMutation.mutate(values))} className="space-y-4">
+                <div>
+                  <Label htmlFor="tax-rule-name">Name</Label>
+                  <Input id="tax-rule-name" placeholder="e.g. California sales tax" {...form.register("name")} data-testid="tax-rule-name-input" />
+                </div>
+                <div>
+                  <Label>Tax class</Label>
+                  <Select value={form.watch("taxClassId")} onValueChange={(value) => form.setValue("taxClassId", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={STANDARD_CLASS}>Standard</SelectItem>
+                      {taxClasses.map((taxClass) => (
+                        <SelectItem key={taxClass.id} value={taxClass.id}>{taxClass.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label htmlFor="tax-rule-country">Country</Label>
+                    <Input id="tax-rule-country" maxLength={2} className="uppercase" {...form.register("country")} data-testid="tax-rule-country-input" />
+                  </div>
+                  <div>
+                    <Label htmlFor="tax-rule-region">State / region</Label>
+                    <Input id="tax-rule-region" className="uppercase" {...form.register("region")} />
+                  </div>
+                  <div>
+                    <Label htmlFor="tax-rule-postal">Postal prefix</Label>
+                    <Input id="tax-rule-postal" {...form.register("postalPrefix")} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="tax-rule-rate">Rate (%)</Label>
+                    <Input id="tax-rule-rate" type="number" step="0.001" {...form.register("rate")} data-testid="tax-rule-rate-input" />
+                  </div>
+                  <div>
+                    <Label htmlFor="tax-rule-priority">Priority</Label>
+                    <Input id="tax-rule-priority" type="number" {...form.register("priority")} />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="tax-rule-inclusive"
+                    checked={form.watch("priceIncludesTax")}
+                    onCheckedChange={(checked) => form.setValue("priceIncludesTax", checked)}
+                  />
+                  <Label htmlFor="tax-rule-inclusive">Catalog prices include this tax</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="tax-rule-active"
+                    checked={form.watch("isActive")}
+                    onCheckedChange={(checked) => form.setValue("isActive", checked)}
+                  />
+                  <Label htmlFor="tax-rule-active">Active</Label>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={closeRuleDialog}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveRuleMutation.isPending} data-testid="save-tax-rule">
+                    {saveRuleMutation.isPending ? "Saving..." : "Save Rule"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {rules.length === 0 ? (
+          <p className="text-muted-foreground">No tax rules yet. Orders are not taxed.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <Card key={rule.id} className="p-4">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold" data-testid={`tax-rule-name-${rule.id}`}>{rule.name}</span>
+                      <Badge variant="outline">{className(rule.taxClassId)}</Badge>
+                      {rule.priceIncludesTax && <Badge variant="secondary">inclusive</Badge>}
+                      {!rule.isActive && <Badge variant="outline">inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {location(rule)} · {parseFloat(rule.rate)}%
+                      {rule.priority !== 0 && ` · priority ${rule.priority}`}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingRule(rule);
+                        form.reset({
+                          name: rule.name,
+                          taxClassId: rule.taxClassId ?? STANDARD_CLASS,
+                          country: rule.country,
+                          region: rule.region ?? "",
+                          postalPrefix: rule.postalPrefix ?? "",
+                          rate: rule.rate,
+                          priceIncludesTax: rule.priceIncludesTax,
+                          priority: rule.priority.toString(),
+                          isActive: rule.isActive,
+                        });
+                        setIsRuleDialogOpen(true);
+                      }}
+                      data-testid={`edit-tax-rule-${rule.id}`}
+                    >
+                      <Edit size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteRuleMutation.mutate(rule.id)}
+                      className="text-destructive hover:text-destructive"
+                      data-testid={`delete-tax-rule-${rule.id}`}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Tax Classes</h3>
+          <p className="text-sm text-muted-foreground">
+            Assign a class to a product or category to tax it differently from standard goods.
+          </p>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newClassName.trim()) createClassMutation.mutate(newClassName.trim());
+            }}
+          >
+            <Input
+              placeholder="e.g. Reduced rate"
+              value={newClassName}
+              onChange={(e) => setNewClassName(e.target.value)}
+              data-testid="tax-class-name-input"
+            />
+            <Button type="submit" variant="secondary" disabled={createClassMutation.isPending}>Add</Button>
+          </form>
+          {taxClasses.map((taxClass) => (
+            <div key={taxClass.id} className="flex justify-between items-center border border-border rounded-md px-3 py-2">
+              <span data-testid={`tax-class-${taxClass.id}`}>{taxClass.name}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => deleteClassMutation.mutate(taxClass.id)}
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Tax-Exempt Customers</h3>
+          <p className="text-sm text-muted-foreground">
+            These customers are never charged tax and pay net prices where prices include tax.
+          </p>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (exemptEmail.trim()) setExemptMutation.mutate({ email: exemptEmail.trim(), taxExempt: true });
+            }}
+          >
+            <Input
+              type="email"
+              placeholder="Customer email"
+              value={exemptEmail}
+              onChange={(e) => setExemptEmail(e.target.value)}
+              data-testid="tax-exempt-email-input"
+            />
+            <Button type="submit" variant="secondary" disabled={setExemptMutation.isPending}>Add</Button>
+          </form>
+          {exemptCustomers.map((customer) => (
+            <div key={customer.id} className="flex justify-between items-center border border-border rounded-md px-3 py-2">
+              <span>
+                {customer.username} <span className="text-muted-foreground text-sm">{customer.email}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setExemptMutation.mutate({ email: customer.email, taxExempt: false })}
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
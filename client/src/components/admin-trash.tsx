@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Package, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toastError } from "@/lib/queryClient";
+import type { Trash } from "@shared/schema";
+
+type TrashKind = "products" | "categories";
+
+// Deleted products and categories wait here until restored or purged
+export function AdminTrash() {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [purgeTarget, setPurgeTarget] = useState<{ kind: TrashKind; id: string; name: string } | null>(null);
+
+  const { data: trash, isLoading } = useQuery<Trash>({
+    queryKey: ["/api/trash"],
+    queryFn: async () => {
+      const response = await fetch('/api/trash', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch trash');
+      }
+      return response.json();
+    },
+  });
+
+  const invalidate = (kind: TrashKind) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/${kind}`] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: ({ kind, id }: { kind: TrashKind; id: string }) => apiRequest("POST", `/api/${kind}/${id}/restore`),
+    onSuccess: (_, { kind }) => {
+      invalidate(kind);
+      toast({
+        title: "Restored",
+        description: kind === "products" ? "The product is back in your catalog." : "The category is back in your catalog.",
+      });
+    },
+    onError: toastError("Error restoring item"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: ({ kind, id }: { kind: TrashKind; id: string }) => apiRequest("DELETE", `/api/${kind}/${id}/purge`),
+    onSuccess: (_, { kind }) => {
+      invalidate(kind);
+      setPurgeTarget(null);
+      toast({
+        title: "Permanently deleted",
+        description: "The item can no longer be restored.",
+      });
+    },
+    onError: (error: any) => {
+      setPurgeTarget(null);
+      toastError("Error deleting item")(error);
+    },
+  });
+
+  const renderItem = (kind: TrashKind, item: { id: string; name: string; deletedAt: Date | string | null }, detail?: string) => (
+    <Card key={item.id} className="p-4 flex items-center justify-between" data-testid={`trash-${kind}-${item.id}`}>
+      <div>
+        <p className="font-semibold">{item.name}</p>
+        <p className="text-sm text-muted-foreground">
+          {detail && `${detail} · `}Deleted {new Date(item.deletedAt!).toLocaleString()}
+        </p>
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => restoreMutation.mutate({ kind, id: item.id })}
+          disabled={restoreMutation.isPending}
+          data-testid={`restore-${kind}-${item.id}`}
+        >
+          <RotateCcw className="mr-1" size={14} />
+          Restore
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setPurgeTarget({ kind, id: item.id, name: item.name })}
+          className="text-destructive hover:text-destructive"
+          data-testid={`purge-${kind}-${item.id}`}
+        >
+          <Trash2 className="mr-1" size={14} />
+          Delete forever
+        </Button>
+      </div>
+    </Card>
+  );
+
+  if (isLoading || !trash) {
+    return <p className="text-muted-foreground">Loading trash...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold">Trash</h3>
+      </div>
+
+      {trash.products.length === 0 && trash.categories.length === 0 ? (
+        <Card className="p-12 text-center">
+          <Package className="mx-auto mb-2 text-muted-foreground" size={24} />
+          <p className="text-muted-foreground">The trash is empty.</p>
+        </Card>
+      ) : (
+        <>
+          {trash.products.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Products</h4>
+              {trash.products.map((product) => renderItem("products", product, `$${parseFloat(product.price).toFixed(2)}`))}
+            </div>
+          )}
+          {trash.categories.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Categories</h4>
+              {trash.categories.map((category) => renderItem("categories", category))}
+            </div>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{purgeTarget?.name}" forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.kind === "products"
+                ? "The product, its variants, images and reviews are removed for good. Past orders keep their copy of the product details."
+                : "The category is removed for good and its products become uncategorized."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => purgeTarget && purgeMutation.mutate({ kind: purgeTarget.kind, id: purgeTarget.id })}
+              disabled={purgeMutation.isPending}
+              data-testid="confirm-purge"
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete forever"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
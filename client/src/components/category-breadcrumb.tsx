@@ -0,0 +1,34 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import { categoryPath, type Category } from "@shared/schema";
+
+interface CategoryBreadcrumbProps {
+  categories: Category[];
+  categoryId?: string | null;
+  // Trailing page name, e.g. a product; without it the category itself is last
+  current?: string;
+  className?: string;
+}
+
+// Home › Products › each ancestor of the category › the page
+export function CategoryBreadcrumb({ categories, categoryId, current, className }: CategoryBreadcrumbProps) {
+  const path = categoryId ? categoryPath(categories, categoryId) : [];
+  const links = [
+    { href: "/", label: "Home" },
+    { href: "/products", label: "Products" },
+    ...path.map((category) => ({ href: `/category/${category.slug}`, label: category.name })),
+  ];
+  const last = current ?? links.pop()!.label;
+
+  return (
+    <nav className={`text-sm text-muted-foreground ${className ?? ""}`} data-testid="breadcrumb">
+      {links.map((link) => (
+        <Fragment key={link.href}>
+          <Link href={link.href} className="hover:text-foreground transition-colors">{link.label}</Link>
+          <span className="mx-2">›</span>
+        </Fragment>
+      ))}
+      <span className="text-foreground">{last}</span>
+    </nav>
+  );
+}
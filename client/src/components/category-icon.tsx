@@ -0,0 +1,22 @@
+import { Book, Car, Dumbbell, Gamepad2, Gift, Heart, Home, Laptop, Package, Shirt, Utensils, type LucideIcon } from "lucide-react";
+
+// Category icons are stored under their Font Awesome names, which is what the
+// seed data uses; they are drawn with the matching lucide icon
+export const categoryIconOptions: { value: string; label: string; Icon: LucideIcon }[] = [
+  { value: "fas fa-box", label: "Box", Icon: Package },
+  { value: "fas fa-laptop", label: "Electronics", Icon: Laptop },
+  { value: "fas fa-tshirt", label: "Clothing", Icon: Shirt },
+  { value: "fas fa-home", label: "Home", Icon: Home },
+  { value: "fas fa-dumbbell", label: "Sports", Icon: Dumbbell },
+  { value: "fas fa-book", label: "Books", Icon: Book },
+  { value: "fas fa-gamepad", label: "Games", Icon: Gamepad2 },
+  { value: "fas fa-utensils", label: "Kitchen", Icon: Utensils },
+  { value: "fas fa-car", label: "Automotive", Icon: Car },
+  { value: "fas fa-gift", label: "Gifts", Icon: Gift },
+  { value: "fas fa-heart", label: "Health", Icon: Heart },
+];
+
+export function CategoryIcon({ icon, className, size }: { icon: string | null; className?: string; size?: number }) {
+  const Icon = categoryIconOptions.find((option) => option.value === icon)?.Icon ?? Package;
+  return <Icon className={className} size={size} />;
+}
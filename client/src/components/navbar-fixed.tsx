@@ -1,18 +1,23 @@
 import { Link, useLocation } from "wouter";
-import { ShoppingCart, Search, User, Menu } from "lucide-react";
+import { ShoppingCart, Search, User, Menu, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/lib/auth";
 import { useCart } from "@/lib/cart";
+import { useWishlist } from "@/lib/wishlist";
 
 export function Navbar() {
   const [location, setLocation] = useLocation();
   const { isAuthenticated, user, logout } = useAuth();
-  const { itemCount } = useCart();
+  const { itemCount, resetCart } = useCart();
+  const { resetWishlist } = useWishlist();
 
   const handleLogout = () => {
     logout();
+    resetCart();
+    resetWishlist();
     setLocation('/login');
   };
 
@@ -97,6 +102,13 @@ export function Navbar() {
               <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={16} />
             </div>
 
+            {/* Wishlist */}
+            <Link href="/account/wishlist">
+              <Button variant="ghost" size="sm" aria-label="Wishlist" data-testid="wishlist-button">
+                <Heart size={20} />
+              </Button>
+            </Link>
+
             {/* Cart */}
             <Link href="/cart">
               <Button variant="ghost" size="sm" className="relative" data-testid="cart-button">
@@ -116,9 +128,22 @@ export function Navbar() {
             <div className="flex items-center space-x-2">
               {isAuthenticated ? (
                 <div className="flex items-center space-x-2">
-                  <span className="text-sm text-muted-foreground">
-                    Hello, {user?.username}
-                  </span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid="account-menu">
+                        <User className="mr-1" size={16} />
+                        Hello, {user?.username}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => setLocation('/account/orders')} data-testid="nav-orders">
+                        Orders
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => setLocation('/account/addresses')} data-testid="nav-addresses">
+                        Addresses
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                   <Button
                     variant="outline"
                     size="sm"
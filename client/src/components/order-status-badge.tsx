@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+
+export function OrderStatusBadge({ status, testId }: { status: string; testId?: string }) {
+  return (
+    <Badge
+      variant={
+        status === 'delivered' ? 'default' :
+        status === 'processing' ? 'secondary' :
+        status === 'shipped' || status === 'pending' ? 'outline' : 'destructive'
+      }
+      data-testid={testId}
+    >
+      {status}
+    </Badge>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/lib/auth";
+import type { OrderStatusChange } from "@shared/schema";
+
+// Status changes of one order, oldest first. Loaded when first expanded.
+export function OrderTimeline({ orderId }: { orderId: string }) {
+  const { token } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: history = [], isLoading } = useQuery<OrderStatusChange[]>({
+    queryKey: ["/api/orders", orderId, "history"],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${orderId}/history`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch order history');
+      }
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  return (
+    <div className="mt-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="px-0 text-muted-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+        data-testid={`order-history-toggle-${orderId}`}
+      >
+        {isOpen ? <ChevronUp className="mr-1" size={14} /> : <ChevronDown className="mr-1" size={14} />}
+        History
+      </Button>
+      {isOpen && (
+        isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+        ) : (
+          <OrderHistoryList orderId={orderId} history={history} />
+        )
+      )}
+    </div>
+  );
+}
+
+// Customers see who changed an order only as "Store"; staff names stay internal
+export function OrderHistoryList({ orderId, history, showChangedBy = true }: {
+  orderId: string;
+  history: OrderStatusChange[];
+  showChangedBy?: boolean;
+}) {
+  return (
+    <ol className="border-l border-border ml-2 space-y-3 mt-1" data-testid={`order-history-${orderId}`}>
+      {history.map((change) => (
+        <li key={change.id} className="relative pl-4">
+          <span className="absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <div className="text-sm">
+            <span className="font-medium">
+              {change.fromStatus ? `${change.fromStatus} → ${change.toStatus}` : `Placed as ${change.toStatus}`}
+            </span>
+            <span className="text-muted-foreground">
+              {" · "}{showChangedBy ? change.changedByName ?? "System" : change.changedBy ? "Store" : "System"}
+              {" · "}{new Date(change.createdAt!).toLocaleString()}
+            </span>
+          </div>
+          {change.note && <p className="text-sm text-muted-foreground">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,23 +1,36 @@
-import { Star, ShoppingCart } from "lucide-react";
+import { Star, ShoppingCart, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { Link } from "wouter";
 import { useCart } from "@/lib/cart";
+import { useWishlist } from "@/lib/wishlist";
 import { useToast } from "@/hooks/use-toast";
-import type { Product } from "@shared/schema";
+import type { Product, ProductMedia } from "@shared/schema";
 
 interface ProductCardProps {
-  product: Product;
+  product: Product & { media?: ProductMedia[] };
   categoryName?: string;
 }
 
 export function ProductCard({ product, categoryName }: ProductCardProps) {
   const { addItem } = useCart();
+  const { productIds: savedIds, toggle: toggleWishlist } = useWishlist();
   const { toast } = useToast();
+  const isSaved = savedIds.includes(product.id);
+
+  const handleToggleWishlist = () => {
+    const saved = toggleWishlist(product.id);
+    toast({
+      title: saved ? "Saved to wishlist" : "Removed from wishlist",
+      description: product.name,
+    });
+  };
 
   const handleAddToCart = () => {
     addItem({
-      id: product.id,
+      productId: product.id,
       name: product.name,
       price: parseFloat(product.price),
       image: product.image,
@@ -51,15 +64,50 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
   };
 
   return (
-    <Card className="overflow-hidden shadow-sm hover:shadow-lg transition-all duration-200 product-card border border-border">
-      <div className="aspect-square overflow-hidden">
-        <img 
-          src={product.image} 
-          alt={product.name}
-          className="w-full h-full object-cover hover:scale-105 transition-transform duration-200"
-          data-testid={`product-image-${product.id}`}
-        />
-      </div>
+    <Card className="relative overflow-hidden shadow-sm hover:shadow-lg transition-all duration-200 product-card border border-border">
+      <button
+        type="button"
+        onClick={handleToggleWishlist}
+        aria-label={isSaved ? "Remove from wishlist" : "Save to wishlist"}
+        aria-pressed={isSaved}
+        className="absolute top-2 right-2 z-10 rounded-full bg-background/80 p-2 shadow-sm hover:bg-background transition-colors"
+        data-testid={`wishlist-toggle-${product.id}`}
+      >
+        <Heart size={16} className={isSaved ? "fill-red-500 text-red-500" : "text-muted-foreground"} />
+      </button>
+      {product.media && product.media.length > 1 ? (
+        <Carousel className="group" opts={{ startIndex: Math.max(0, product.media.findIndex(m => m.isPrimary)) }}>
+          <CarouselContent className="ml-0">
+            {product.media.map((media) => (
+              <CarouselItem key={media.id} className="pl-0">
+                <Link href={`/products/${product.id}`}>
+                  <div className="aspect-square overflow-hidden cursor-pointer">
+                    <img 
+                      src={media.url} 
+                      alt={media.alt || product.name}
+                      className="w-full h-full object-cover"
+                      data-testid={`product-image-${product.id}`}
+                    />
+                  </div>
+                </Link>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="left-2 opacity-0 group-hover:opacity-100 transition-opacity" />
+          <CarouselNext className="right-2 opacity-0 group-hover:opacity-100 transition-opacity" />
+        </Carousel>
+      ) : (
+        <Link href={`/products/${product.id}`}>
+          <div className="aspect-square overflow-hidden cursor-pointer">
+            <img 
+              src={product.image} 
+              alt={product.media?.[0]?.alt || product.name}
+              className="w-full h-full object-cover hover:scale-105 transition-transform duration-200"
+              data-testid={`product-image-${product.id}`}
+            />
+          </div>
+        </Link>
+      )}
       <CardContent className="p-4">
         <div className="flex items-center justify-between mb-2">
           {categoryName && (
@@ -79,7 +127,9 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
           </div>
         </div>
         <h3 className="font-semibold mb-2" data-testid={`product-name-${product.id}`}>
-          {product.name}
+          <Link href={`/products/${product.id}`} className="hover:text-primary transition-colors">
+            {product.name}
+          </Link>
         </h3>
         <p className="text-muted-foreground text-sm mb-3 line-clamp-2" data-testid={`product-description-${product.id}`}>
           {product.description}
@@ -88,15 +138,28 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
           <span className="text-xl font-bold text-primary" data-testid={`product-price-${product.id}`}>
             ${parseFloat(product.price).toFixed(2)}
           </span>
-          <Button 
-            className="bg-accent text-accent-foreground hover:bg-accent/90 transition-colors font-medium text-sm"
-            size="sm"
-            onClick={handleAddToCart}
-            data-testid={`add-to-cart-${product.id}`}
-          >
-            <ShoppingCart size={16} className="mr-1" />
-            Add
-          </Button>
+          {product.options.length > 0 ? (
+            // Variant products need a size/color choice, which lives on the detail page
+            <Link href={`/products/${product.id}`}>
+              <Button 
+                className="bg-accent text-accent-foreground hover:bg-accent/90 transition-colors font-medium text-sm"
+                size="sm"
+                data-testid={`choose-options-${product.id}`}
+              >
+                Options
+              </Button>
+            </Link>
+          ) : (
+            <Button 
+              className="bg-accent text-accent-foreground hover:bg-accent/90 transition-colors font-medium text-sm"
+              size="sm"
+              onClick={handleAddToCart}
+              data-testid={`add-to-cart-${product.id}`}
+            >
+              <ShoppingCart size={16} className="mr-1" />
+              Add
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
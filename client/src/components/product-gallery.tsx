@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+
+export interface GalleryImage {
+  url: string;
+  alt: string;
+}
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  // Slide to show, e.g. the primary image or the selected variant's image
+  activeIndex?: number;
+}
+
+export function ProductGallery({ images, activeIndex = 0 }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(activeIndex);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    api?.scrollTo(activeIndex);
+  }, [api, activeIndex]);
+
+  return (
+    <div className="space-y-3">
+      <Card className="overflow-hidden relative">
+        <Carousel setApi={setApi} opts={{ startIndex: activeIndex }}>
+          <CarouselContent className="ml-0">
+            {images.map((image, index) => (
+              <CarouselItem key={`${image.url}-${index}`} className="pl-0">
+                <div className="aspect-square">
+                  <img
+                    src={image.url}
+                    alt={image.alt}
+                    className="w-full h-full object-cover"
+                    data-testid={`product-gallery-image-${index}`}
+                  />
+                </div>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {images.length > 1 && (
+            <>
+              <CarouselPrevious className="left-3" />
+              <CarouselNext className="right-3" />
+            </>
+          )}
+        </Carousel>
+      </Card>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={`${image.url}-${index}`}
+              className={cn(
+                "w-16 h-16 flex-shrink-0 rounded-md overflow-hidden border-2 transition-colors",
+                index === current ? "border-primary" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+              onClick={() => api?.scrollTo(index)}
+              data-testid={`product-gallery-thumb-${index}`}
+            >
+              <img src={image.url} alt={image.alt} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { GripVertical, Star, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { InsertProduct, InsertProductMedia } from "@shared/schema";
+
+interface ProductMediaEditorProps {
+  form: UseFormReturn<InsertProduct>;
+}
+
+export function ProductMediaEditor({ form }: ProductMediaEditorProps) {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [imageUrl, setImageUrl] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const media = form.watch("media") ?? [];
+
+  // products.image must keep pointing at the primary image
+  const setMedia = (next: InsertProductMedia[]) => {
+    const primary = next.find(m => m.isPrimary) ?? next[0];
+    const normalized = next.map(m => ({ ...m, isPrimary: m === primary }));
+    form.setValue("media", normalized, { shouldDirty: true });
+    form.setValue("image", primary?.url ?? "", { shouldDirty: true });
+  };
+
+  const addImages = (urls: string[]) => {
+    const name = form.getValues("name");
+    setMedia([...media, ...urls.map(url => ({ url, alt: name || null, isPrimary: false }))]);
+  };
+
+  const handleUpload = async (files: FileList) => {
+    const formData = new FormData();
+    Array.from(files).forEach(file => formData.append('images', file));
+
+    setIsUploading(true);
+    try {
+      const response = await fetch('/api/upload/multiple', {
+        method: 'POST',
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: formData,
+      });
+
+      if (response.ok) {
+        const data: { filePaths: string[] } = await response.json();
+        addImages(data.filePaths);
+        toast({
+          title: "Images uploaded successfully",
+          description: `${data.filePaths.length} image(s) added to the gallery.`,
+        });
+      } else {
+        toast({
+          title: "Upload failed",
+          description: `Failed to upload the images: ${response.status} ${response.statusText}`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Upload error:', error);
+      toast({
+        title: "Upload error",
+        description: "An error occurred while uploading the images.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...media];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setMedia(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {media.length > 0 && (
+        <div className="space-y-2">
+          {media.map((item, index) => (
+            <div
+              key={`${item.url}-${index}`}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) moveImage(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={cn(
+                "flex items-center gap-2 border border-border rounded-md p-2",
+                dragIndex === index && "opacity-50"
+              )}
+              data-testid={`product-media-${index}`}
+            >
+              <GripVertical size={16} className="text-muted-foreground cursor-move flex-shrink-0" />
+              <img src={item.url} alt={item.alt ?? ""} className="w-12 h-12 object-cover rounded flex-shrink-0" />
+              <Input
+                placeholder="Alt text"
+                value={item.alt ?? ""}
+                onChange={(e) => setMedia(media.map((m, i) => i === index ? { ...m, alt: e.target.value } : m))}
+                data-testid={`product-media-alt-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title={item.isPrimary ? "Primary image" : "Make primary"}
+                onClick={() => setMedia(media.map((m, i) => ({ ...m, isPrimary: i === index })))}
+                data-testid={`product-media-primary-${index}`}
+              >
+                <Star size={16} className={item.isPrimary ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"} />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setMedia(media.filter((_, i) => i !== index))}
+                data-testid={`product-media-remove-${index}`}
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Drag to reorder. The starred image is shown in listings.</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Image URL"
+          value={imageUrl}
+          onChange={(e) => setImageUrl(e.target.value)}
+          data-testid="product-image-input"
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => {
+            if (imageUrl.trim()) {
+              addImages([imageUrl.trim()]);
+              setImageUrl("");
+            }
+          }}
+          data-testid="add-image-url"
+        >
+          Add
+        </Button>
+      </div>
+      <div>
+        <Input
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) => {
+            if (e.target.files?.length) {
+              handleUpload(e.target.files);
+            }
+            // Reset the file input
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="image-upload"
+        />
+        <Label
+          htmlFor="image-upload"
+          className="cursor-pointer inline-flex items-center justify-center rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-secondary text-secondary-foreground hover:bg-secondary/80 h-10 px-4 py-2"
+        >
+          <Upload size={16} className="mr-2" />
+          {isUploading ? "Uploading..." : "Upload Images"}
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Star } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Review, ReviewWithAuthor } from "@shared/schema";
+
+interface ProductReviewsProps {
+  productId: string;
+}
+
+function StarRating({ value, onChange, size = 16 }: { value: number; onChange?: (value: number) => void; size?: number }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          size={size}
+          className={`${star <= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"} ${onChange ? "cursor-pointer" : ""}`}
+          onClick={() => onChange?.(star)}
+          data-testid={onChange ? `review-star-${star}` : undefined}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ProductReviews({ productId }: ProductReviewsProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: reviews = [] } = useQuery<ReviewWithAuthor[]>({
+    queryKey: ["/api/products", productId, "reviews"],
+    queryFn: async () => {
+      const response = await fetch(`/api/products/${productId}/reviews`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch reviews');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: mine } = useQuery<{ review: Review | null; canReview: boolean }>({
+    queryKey: ["/api/products", productId, "reviews", "mine"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/products/${productId}/reviews/mine`);
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  const ownReview = mine?.review ?? null;
+
+  useEffect(() => {
+    if (ownReview) {
+      setRating(ownReview.rating);
+      setTitle(ownReview.title ?? "");
+      setBody(ownReview.body ?? "");
+    }
+  }, [ownReview]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products", productId] });
+  };
+
+  const saveReviewMutation = useMutation({
+    mutationFn: () => {
+      const data = { rating, title: title || null, body: body || null };
+      return ownReview
+        ? apiRequest("PUT", `/api/reviews/${ownReview.id}`, data)
+        : apiRequest("POST", `/api/products/${productId}/reviews`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsEditing(false);
+      toast({
+        title: "Review submitted",
+        description: "Thanks! Your review will appear once it has been approved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't save review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: (reviewId: string) => apiRequest("DELETE", `/api/reviews/${reviewId}`),
+    onSuccess: () => {
+      invalidate();
+      setRating(0);
+      setTitle("");
+      setBody("");
+      toast({
+        title: "Review deleted",
+        description: "Your review has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't delete review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const showForm = isAuthenticated && ((!ownReview && mine?.canReview) || isEditing);
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-2xl font-bold mb-6" data-testid="reviews-title">
+        Customer Reviews ({reviews.length})
+      </h2>
+
+      {ownReview && !isEditing && (
+        <Card className="p-4 mb-6" data-testid="own-review">
+          <div className="flex justify-between items-start">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <span className="font-semibold">Your review</span>
+                <Badge variant={ownReview.status === "approved" ? "default" : "secondary"}>{ownReview.status}</Badge>
+              </div>
+              <StarRating value={ownReview.rating} />
+              {ownReview.title && <p className="font-medium mt-2">{ownReview.title}</p>}
+              {ownReview.body && <p className="text-muted-foreground text-sm mt-1">{ownReview.body}</p>}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} data-testid="edit-review">
+                Edit
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => deleteReviewMutation.mutate(ownReview.id)}
+                disabled={deleteReviewMutation.isPending}
+                data-testid="delete-review"
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {showForm && (
+        <Card className="p-4 mb-6 space-y-3" data-testid="review-form">
+          <h3 className="font-semibold">{ownReview ? "Edit your review" : "Write a review"}</h3>
+          <StarRating value={rating} onChange={setRating} size={24} />
+          <Input
+            placeholder="Title (optional)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            data-testid="review-title-input"
+          />
+          <Textarea
+            placeholder="What did you think?"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            data-testid="review-body-input"
+          />
+          <div className="flex gap-2">
+            <Button
+              onClick={() => saveReviewMutation.mutate()}
+              disabled={rating === 0 || saveReviewMutation.isPending}
+              data-testid="submit-review"
+            >
+              {saveReviewMutation.isPending ? "Saving..." : "Submit Review"}
+            </Button>
+            {isEditing && (
+              <Button variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {!isAuthenticated && (
+        <p className="text-sm text-muted-foreground mb-6">
+          <Link href="/login" className="text-primary hover:text-primary/80">Sign in</Link> to review products you've bought.
+        </p>
+      )}
+      {isAuthenticated && mine && !ownReview && !mine.canReview && (
+        <p className="text-sm text-muted-foreground mb-6">Only customers who bought this product can review it.</p>
+      )}
+
+      {reviews.length === 0 ? (
+        <p className="text-muted-foreground">No reviews yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <Card key={review.id} className="p-4" data-testid={`review-${review.id}`}>
+              <div className="flex items-center justify-between mb-1">
+                <StarRating value={review.rating} />
+                <span className="text-sm text-muted-foreground">
+                  {review.username} · {new Date(review.createdAt!).toLocaleDateString()}
+                </span>
+              </div>
+              {review.title && <p className="font-medium mt-2">{review.title}</p>}
+              {review.body && <p className="text-muted-foreground text-sm mt-1 whitespace-pre-line">{review.body}</p>}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
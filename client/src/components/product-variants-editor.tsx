@@ -0,0 +1,177 @@
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { Plus, Trash2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { InsertProduct, InsertProductVariant, ProductOption } from "@shared/schema";
+
+interface ProductVariantsEditorProps {
+  form: UseFormReturn<InsertProduct>;
+}
+
+// Every combination of option values, e.g. [{ Size: "S", Color: "Red" }, ...]
+function combinations(options: ProductOption[]): Record<string, string>[] {
+  return options.reduce<Record<string, string>[]>(
+    (acc, option) => acc.flatMap(combo => option.values.map(value => ({ ...combo, [option.name]: value }))),
+    [{}]
+  );
+}
+
+function skuPart(value: string) {
+  return value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+export function ProductVariantsEditor({ form }: ProductVariantsEditorProps) {
+  const options = form.watch("options") ?? [];
+  const { fields, remove, replace } = useFieldArray({
+    control: form.control,
+    name: "variants",
+    keyName: "fieldKey", // variants carry their own database id
+  });
+
+  const setOptions = (next: ProductOption[]) => {
+    form.setValue("options", next, { shouldDirty: true });
+  };
+
+  const generateVariants = () => {
+    const existing = form.getValues("variants") ?? [];
+    const base = skuPart(form.getValues("name") || "SKU").slice(0, 12) || "SKU";
+    const usable = options
+      .map(o => ({ name: o.name.trim(), values: o.values.map(v => v.trim()).filter(Boolean) }))
+      .filter(o => o.name && o.values.length > 0);
+
+    // Keep the SKU, price and stock of combinations that already exist
+    const variants: InsertProductVariant[] = combinations(usable).map(combo => {
+      const match = existing.find(v => usable.every(o => v.options[o.name] === combo[o.name]));
+      return match ?? {
+        sku: [base, ...usable.map(o => skuPart(combo[o.name]))].join("-"),
+        options: combo,
+        price: null,
+        stock: 0,
+        image: null,
+      };
+    });
+
+    setOptions(usable);
+    replace(variants);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <Label>Options</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setOptions([...options, { name: "", values: [] }])}
+            data-testid="add-product-option"
+          >
+            <Plus size={14} className="mr-1" />
+            Add option
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {options.map((option, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                placeholder="Name (e.g. Size)"
+                className="w-1/3"
+                value={option.name}
+                onChange={(e) => setOptions(options.map((o, i) => i === index ? { ...o, name: e.target.value } : o))}
+                data-testid={`product-option-name-${index}`}
+              />
+              <Input
+                placeholder="Values, comma separated"
+                value={option.values.join(",")}
+                onChange={(e) => setOptions(options.map((o, i) => i === index ? { ...o, values: e.target.value.split(",") } : o))}
+                onBlur={() => setOptions(options.map((o, i) => i === index
+                  ? { ...o, values: o.values.map(v => v.trim()).filter(Boolean) }
+                  : o))}
+                data-testid={`product-option-values-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setOptions(options.filter((_, i) => i !== index))}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {options.length > 0 && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            className="mt-2"
+            onClick={generateVariants}
+            data-testid="generate-variants"
+          >
+            <Wand2 size={14} className="mr-1" />
+            Generate variants
+          </Button>
+        )}
+      </div>
+
+      {fields.length > 0 && (
+        <div>
+          <Label className="block mb-2">Variants</Label>
+          <div className="space-y-3 max-h-64 overflow-y-auto pr-1">
+            {fields.map((field, index) => (
+              <div key={field.fieldKey} className="border border-border rounded-md p-2 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium">
+                    {options.map(o => field.options[o.name]).filter(Boolean).join(" / ")}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => remove(index)}
+                    data-testid={`remove-variant-${index}`}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    placeholder="SKU"
+                    {...form.register(`variants.${index}.sku`)}
+                    data-testid={`variant-sku-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="Price"
+                    {...form.register(`variants.${index}.price`, { setValueAs: (v) => v === "" ? null : v })}
+                    data-testid={`variant-price-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Stock"
+                    {...form.register(`variants.${index}.stock`, { setValueAs: (v) => parseInt(v) || 0 })}
+                    data-testid={`variant-stock-${index}`}
+                  />
+                </div>
+                <Input
+                  placeholder="Image URL (optional)"
+                  {...form.register(`variants.${index}.image`, { setValueAs: (v) => v || null })}
+                  data-testid={`variant-image-${index}`}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Leave price empty to use the product price. Product stock is the sum of variant stock.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
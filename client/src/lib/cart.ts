@@ -1,22 +1,122 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { getAuthHeaders } from './auth';
+import type { CartView } from '@shared/schema';
 
-interface CartItem {
-  id: string;
+export interface CartItem {
+  id: string; // line key: the product id, or product and variant id
+  productId: string;
+  variantId?: string;
+  variantLabel?: string; // e.g. "M / Red"
   name: string;
   price: number;
   image: string;
   quantity: number;
 }
 
+export const cartItemId = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
 interface CartState {
   items: CartItem[];
   itemCount: number;
   total: number;
-  addItem: (item: Omit<CartItem, 'quantity'>) => void;
+  token: string | null; // identifies a guest's cart on the server
+  addItem: (item: Omit<CartItem, 'id' | 'quantity'>, quantity?: number) => void;
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   clearCart: () => void;
+  acceptPrice: (id: string, price: number) => void;
+  load: () => void;
+  mergeGuestCart: () => void;
+  resetCart: () => void;
+}
+
+const totals = (items: CartItem[]) => ({
+  itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+  total: items.reduce((sum, item) => sum + (item.price * item.quantity), 0),
+});
+
+const toLine = (item: CartItem) => ({
+  productId: item.productId,
+  variantId: item.variantId,
+  quantity: item.quantity,
+});
+
+async function cartRequest(method: string, url: string, data?: unknown): Promise<CartView | null> {
+  const authHeaders = getAuthHeaders();
+  const headers: Record<string, string> = {};
+  if (authHeaders.Authorization) {
+    headers.Authorization = authHeaders.Authorization;
+  }
+  const token = useCart.getState().token;
+  if (token) {
+    headers['X-Cart-Token'] = token;
+  }
+  if (data) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  const body = await response.json();
+  return 'items' in body ? body : null;
+}
+
+// Changes show up locally straight away and are sent to the server one at a
+// time, in order. The server's copy replaces the local one only once nothing
+// is left in flight, so a slow response can't undo a later click.
+let queue: Promise<void> = Promise.resolve();
+let pending = 0;
+
+function sync(request: () => Promise<CartView | null>) {
+  pending++;
+  queue = queue
+    .then(request)
+    .then(
+      (view) => {
+        pending--;
+        if (view) applyView(view);
+      },
+      () => {
+        pending--;
+        // The server turned the change down; show what it actually holds
+        reload();
+      },
+    );
+}
+
+function reload() {
+  queue = queue
+    .then(() => cartRequest('GET', '/api/cart'))
+    .then((view) => {
+      if (view) applyView(view);
+    }, () => {
+      // Offline: keep the local cart until the next change gets through
+    });
+}
+
+function applyView(view: CartView) {
+  // The token is kept even mid-sync: queued requests need it to find the cart
+  useCart.setState({ token: view.token });
+  if (pending > 0) return;
+
+  // Lines keep the price the customer last saw, so the cart page can point
+  // out changes; lines new to this browser take the current price
+  const localItems = useCart.getState().items;
+  const items: CartItem[] = view.items.map((line) => ({
+    ...line,
+    variantId: line.variantId ?? undefined,
+    variantLabel: line.variantLabel ?? undefined,
+    price: localItems.find((item) => item.id === line.id)?.price ?? line.price,
+  }));
+  useCart.setState({ items, ...totals(items) });
 }
 
 export const useCart = create<CartState>()(
@@ -25,32 +125,30 @@ export const useCart = create<CartState>()(
       items: [],
       itemCount: 0,
       total: 0,
-      addItem: (item) => {
+      token: null,
+      addItem: (item, quantity = 1) => {
         const items = get().items;
-        const existingItem = items.find(i => i.id === item.id);
+        const id = cartItemId(item.productId, item.variantId);
+        const existingItem = items.find(i => i.id === id);
         
         let newItems;
         if (existingItem) {
           newItems = items.map(i => 
-            i.id === item.id 
-              ? { ...i, quantity: i.quantity + 1 }
+            i.id === id 
+              ? { ...i, quantity: i.quantity + quantity }
               : i
           );
         } else {
-          newItems = [...items, { ...item, quantity: 1 }];
+          newItems = [...items, { ...item, id, quantity }];
         }
         
-        const itemCount = newItems.reduce((sum, item) => sum + item.quantity, 0);
-        const total = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-        
-        set({ items: newItems, itemCount, total });
+        set({ items: newItems, ...totals(newItems) });
+        sync(() => cartRequest('POST', '/api/cart/items', { productId: item.productId, variantId: item.variantId, quantity }));
       },
       removeItem: (id) => {
         const newItems = get().items.filter(item => item.id !== id);
-        const itemCount = newItems.reduce((sum, item) => sum + item.quantity, 0);
-        const total = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-        
-        set({ items: newItems, itemCount, total });
+        set({ items: newItems, ...totals(newItems) });
+        sync(() => cartRequest('DELETE', `/api/cart/items/${encodeURIComponent(id)}`));
       },
       updateQuantity: (id, quantity) => {
         if (quantity <= 0) {
@@ -61,16 +159,56 @@ export const useCart = create<CartState>()(
         const newItems = get().items.map(item =>
           item.id === id ? { ...item, quantity } : item
         );
-        
-        const itemCount = newItems.reduce((sum, item) => sum + item.quantity, 0);
-        const total = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-        
-        set({ items: newItems, itemCount, total });
+        set({ items: newItems, ...totals(newItems) });
+        sync(() => cartRequest('PATCH', `/api/cart/items/${encodeURIComponent(id)}`, { quantity }));
+      },
+      clearCart: () => {
+        set({ items: [], itemCount: 0, total: 0 });
+        sync(() => cartRequest('DELETE', '/api/cart'));
       },
-      clearCart: () => set({ items: [], itemCount: 0, total: 0 }),
+      acceptPrice: (id, price) => {
+        const newItems = get().items.map(item =>
+          item.id === id ? { ...item, price } : item
+        );
+        set({ items: newItems, ...totals(newItems) });
+      },
+      // Fetches the server's cart. A cart that only exists in this browser,
+      // e.g. one filled before carts were kept on the server, is uploaded.
+      load: () => {
+        sync(async () => {
+          const view = await cartRequest('GET', '/api/cart');
+          const localItems = get().items;
+          if (view && view.items.length === 0 && localItems.length > 0) {
+            return cartRequest('PUT', '/api/cart', { items: localItems.map(toLine) });
+          }
+          return view;
+        });
+      },
+      // Called right after signing in: the guest's cart joins the account's
+      mergeGuestCart: () => {
+        sync(() => {
+          const token = get().token;
+          return token
+            ? cartRequest('POST', '/api/cart/merge', { token })
+            : cartRequest('GET', '/api/cart');
+        });
+      },
+      // On sign-out the account's cart stays on the server, not in this browser
+      resetCart: () => set({ items: [], itemCount: 0, total: 0, token: null }),
     }),
     {
       name: 'cart-storage',
+      version: 1,
+      // Version 0 carts were keyed by product id alone
+      migrate: (persisted: any, version) => {
+        if (version === 0 && persisted?.items) {
+          persisted.items = persisted.items.map((item: CartItem) => ({
+            ...item,
+            productId: item.productId ?? item.id,
+          }));
+        }
+        return persisted as CartState;
+      },
     }
   )
 );
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { apiRequest, queryClient } from './queryClient';
+import type { Order } from '@shared/schema';
+
+// Lookup tokens of orders placed here without an account, by order id. They
+// open the order page and let the orders be claimed after signing up or in.
+interface GuestOrdersState {
+  tokens: Record<string, string>;
+  addOrder: (orderId: string, token: string) => void;
+  forgetOrders: (orderIds: string[]) => void;
+}
+
+export const useGuestOrders = create<GuestOrdersState>()(
+  persist(
+    (set, get) => ({
+      tokens: {},
+      addOrder: (orderId, token) => set({ tokens: { ...get().tokens, [orderId]: token } }),
+      forgetOrders: (orderIds) => {
+        const tokens = { ...get().tokens };
+        orderIds.forEach(id => delete tokens[id]);
+        set({ tokens });
+      },
+    }),
+    {
+      name: 'guest-orders',
+    }
+  )
+);
+
+// Moves this browser's guest orders into the signed-in account. Orders placed
+// with another email stay guest orders and keep their token.
+export async function claimGuestOrders() {
+  const tokens = Object.values(useGuestOrders.getState().tokens);
+  if (tokens.length === 0) return;
+
+  try {
+    const response = await apiRequest("POST", "/api/orders/claim", { tokens });
+    const claimed: Order[] = await response.json();
+    useGuestOrders.getState().forgetOrders(claimed.map(order => order.id));
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+  } catch (error) {
+    // Claiming can be retried on the next sign-in
+  }
+}
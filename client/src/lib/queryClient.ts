@@ -1,5 +1,6 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { getAuthHeaders } from "./auth";
+import { toast } from "@/hooks/use-toast";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -8,6 +9,28 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest's errors read like `400: {"message":"..."}`; this picks out the
+// server's message, falling back to the whole text
+export function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.match(/^\d{3}: ([\s\S]*)$/)?.[1];
+  if (!body) return message;
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+// Mutation error handler that shows the server's message in a toast
+export const toastError = (title: string) => (error: unknown) => {
+  toast({
+    title,
+    description: errorMessage(error),
+    variant: "destructive",
+  });
+};
+
 export async function apiRequest(
   method: string,
   url: string,
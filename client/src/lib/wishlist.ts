@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useAuth } from './auth';
+import { apiRequest, queryClient } from './queryClient';
+import type { WishlistView } from '@shared/schema';
+
+// Ids of the saved products. Guests keep them only here; for signed-in
+// customers this mirrors the server's list and changes show up before the
+// server confirms them, like the cart.
+interface WishlistState {
+  productIds: string[];
+  toggle: (productId: string) => boolean;
+  remove: (productId: string) => void;
+  load: () => void;
+  mergeGuestWishlist: () => void;
+  resetWishlist: () => void;
+}
+
+const isSignedIn = () => !!useAuth.getState().token;
+
+// Server calls run one at a time; the server's list is applied once none
+// are left in flight
+let queue: Promise<void> = Promise.resolve();
+let pending = 0;
+
+function sync(request: () => Promise<Response>) {
+  pending++;
+  queue = queue
+    .then(request)
+    .then((response) => response.json() as Promise<WishlistView>)
+    .then(
+      (view) => {
+        pending--;
+        applyView(view);
+      },
+      () => {
+        pending--;
+        reload();
+      },
+    );
+}
+
+function reload() {
+  queue = queue
+    .then(() => apiRequest('GET', '/api/wishlist'))
+    .then((response) => response.json() as Promise<WishlistView>)
+    .then(applyView, () => {
+      // Keep the local list until the next change gets through
+    });
+}
+
+function applyView(view: WishlistView) {
+  queryClient.setQueryData(["/api/wishlist"], view);
+  if (pending > 0) return;
+  useWishlist.setState({ productIds: view.items.map((item) => item.product.id) });
+}
+
+export const useWishlist = create<WishlistState>()(
+  persist(
+    (set, get) => ({
+      productIds: [],
+      // Returns whether the product is saved afterwards
+      toggle: (productId) => {
+        if (get().productIds.includes(productId)) {
+          get().remove(productId);
+          return false;
+        }
+        set({ productIds: [productId, ...get().productIds] });
+        if (isSignedIn()) {
+          sync(() => apiRequest('POST', '/api/wishlist/items', { productId }));
+        }
+        return true;
+      },
+      remove: (productId) => {
+        set({ productIds: get().productIds.filter(id => id !== productId) });
+        if (isSignedIn()) {
+          sync(() => apiRequest('DELETE', `/api/wishlist/items/${encodeURIComponent(productId)}`));
+        }
+      },
+      load: () => {
+        if (isSignedIn()) {
+          sync(() => apiRequest('GET', '/api/wishlist'));
+        }
+      },
+      // Called right after signing in: what the guest saved joins the account's list
+      mergeGuestWishlist: () => {
+        const productIds = get().productIds;
+        sync(() => productIds.length > 0
+          ? apiRequest('POST', '/api/wishlist/merge', { productIds })
+          : apiRequest('GET', '/api/wishlist'));
+      },
+      // On sign-out the account's list stays on the server, not in this browser
+      resetWishlist: () => {
+        set({ productIds: [] });
+        queryClient.removeQueries({ queryKey: ["/api/wishlist"] });
+      },
+    }),
+    {
+      name: 'wishlist-storage',
+      partialize: (state) => ({ productIds: state.productIds }),
+    }
+  )
+);
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Edit, Plus, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AddressForm,
+  emptyAddress,
+  formatAddressLines,
+  toAddressFormValues,
+  validateAddress,
+  type AddressErrors,
+  type AddressFormValues,
+} from "@/components/address-form";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toastError } from "@/lib/queryClient";
+import type { Address } from "@shared/schema";
+
+export default function Addresses() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, token } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [values, setValues] = useState<AddressFormValues>(emptyAddress);
+  const [label, setLabel] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+  const [errors, setErrors] = useState<AddressErrors>({});
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation('/login');
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data: addresses = [], isLoading } = useQuery<Address[]>({
+    queryKey: ["/api/addresses"],
+    queryFn: async () => {
+      const response = await fetch('/api/addresses', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch addresses');
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  const openDialog = (address: Address | null) => {
+    setEditingAddress(address);
+    setValues(address ? toAddressFormValues(address) : emptyAddress);
+    setLabel(address?.label ?? "");
+    setIsDefault(address?.isDefault ?? addresses.length === 0);
+    setErrors({});
+    setIsDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: object) => editingAddress
+      ? apiRequest("PUT", `/api/addresses/${editingAddress.id}`, payload)
+      : apiRequest("POST", "/api/addresses", payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+      toast({
+        title: editingAddress ? "Address updated" : "Address added",
+        description: "Your address book has been saved.",
+      });
+      setIsDialogOpen(false);
+    },
+    onError: toastError("Error saving address"),
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("PUT", `/api/addresses/${id}/default`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+    },
+    onError: toastError("Error updating address"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/addresses/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+    },
+    onError: toastError("Error deleting address"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { address, errors } = validateAddress(values);
+    if (!address) {
+      setErrors(errors);
+      return;
+    }
+    saveMutation.mutate({ ...address, label: label.trim() || null, isDefault });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold" data-testid="addresses-title">Address Book</h1>
+        <Button onClick={() => openDialog(null)} data-testid="add-address-button">
+          <Plus className="mr-2" size={16} />
+          Add Address
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading addresses...</p>
+      ) : addresses.length === 0 ? (
+        <Card className="p-12 text-center">
+          <p className="text-muted-foreground">You haven't saved any addresses yet.</p>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {addresses.map((address) => (
+            <Card key={address.id} className="p-4 flex flex-col" data-testid={`address-${address.id}`}>
+              <div className="flex items-center gap-2 mb-2">
+                {address.label && <span className="font-semibold">{address.label}</span>}
+                {address.isDefault && <Badge data-testid={`address-default-${address.id}`}>Default</Badge>}
+              </div>
+              <div className="text-sm text-muted-foreground flex-1">
+                {formatAddressLines(address).map((line, index) => (
+                  <div key={index}>{line}</div>
+                ))}
+                {address.phone && <div>{address.phone}</div>}
+              </div>
+              <div className="flex space-x-2 mt-4">
+                {!address.isDefault && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDefaultMutation.mutate(address.id)}
+                    disabled={setDefaultMutation.isPending}
+                    data-testid={`set-default-address-${address.id}`}
+                  >
+                    <Star className="mr-1" size={14} />
+                    Make default
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openDialog(address)}
+                  data-testid={`edit-address-${address.id}`}
+                >
+                  <Edit size={16} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(address.id)}
+                  className="text-destructive hover:text-destructive"
+                  data-testid={`delete-address-${address.id}`}
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingAddress ? "Edit Address" : "Add Address"}</DialogTitle>
+            <DialogDescription>
+              Saved addresses can be picked at checkout.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="address-label" className="text-sm">Label (optional)</Label>
+              <Input
+                id="address-label"
+                placeholder="e.g. Home"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                data-testid="address-label-input"
+              />
+            </div>
+            <AddressForm idPrefix="address" value={values} onChange={setValues} errors={errors} />
+            {!editingAddress?.isDefault && (
+              <div className="flex items-center gap-2">
+                <Switch id="address-default" checked={isDefault} onCheckedChange={setIsDefault} />
+                <Label htmlFor="address-default">Use as my default address</Label>
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="save-address">
+                {saveMutation.isPending ? "Saving..." : "Save Address"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,10 +1,9 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Edit, Trash2, Package, ShoppingCart, DollarSign, Users } from "lucide-react";
+import { Plus, Edit, Trash2, Package, ShoppingCart, DollarSign, Users, Star, Eye, EyeOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -17,9 +16,22 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertProductSchema, type Product, type Category, type Order } from "@shared/schema";
+import { ProductVariantsEditor } from "@/components/product-variants-editor";
+import { ProductMediaEditor } from "@/components/product-media-editor";
+import { AdminCoupons } from "@/components/admin-coupons";
+import { AdminCategories } from "@/components/admin-categories";
+import { AdminTax } from "@/components/admin-tax";
+import { AdminShipping } from "@/components/admin-shipping";
+import { AdminTrash } from "@/components/admin-trash";
+import { ToastAction } from "@/components/ui/toast";
+import { formatAddressLines } from "@/components/address-form";
+import { OrderTimeline } from "@/components/order-timeline";
+import { OrderStatusBadge } from "@/components/order-status-badge";
+import { insertProductSchema, orderStatusTransitions, type OrderStatus, type Product, type ProductListItem, type ProductDetail, type InsertProduct, type Category, type Order, type Paginated, type ReviewWithAuthor, type TaxClass } from "@shared/schema";
 import { useLocation } from "wouter";
 
+const ADMIN_PAGE_SIZE = 20;
+
 export default function Admin() {
   const [, setLocation] = useLocation();
   const { user, token } = useAuth();
@@ -29,6 +41,10 @@ export default function Admin() {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [deleteProductId, setDeleteProductId] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [productPage, setProductPage] = useState(1);
+  // A status change waiting for the admin to confirm it, with an optional note
+  const [statusChange, setStatusChange] = useState<{ order: Order; status: OrderStatus } | null>(null);
+  const [statusNote, setStatusNote] = useState("");
 
   // Redirect if not admin
   useEffect(() => {
@@ -37,16 +53,17 @@ export default function Admin() {
     }
   }, [user, setLocation]);
 
-  const { data: products = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: productList } = useQuery<Paginated<ProductListItem>>({
+    queryKey: ["/api/products", "admin", productPage],
     queryFn: async () => {
-      const response = await fetch('/api/products');
+      const response = await fetch(`/api/products?sort=newest&page=${productPage}&pageSize=${ADMIN_PAGE_SIZE}`);
       if (!response.ok) {
         throw new Error('Failed to fetch products');
       }
       return response.json();
     },
   });
+  const products = productList?.items ?? [];
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
@@ -59,6 +76,17 @@ export default function Admin() {
     },
   });
 
+  const { data: taxClasses = [] } = useQuery<TaxClass[]>({
+    queryKey: ["/api/tax/classes"],
+    queryFn: async () => {
+      const response = await fetch('/api/tax/classes');
+      if (!response.ok) {
+        throw new Error('Failed to fetch tax classes');
+      }
+      return response.json();
+    },
+  });
+
   const { data: orders = [] } = useQuery<Order[]>({
     queryKey: ["/api/orders"],
     queryFn: async () => {
@@ -74,7 +102,22 @@ export default function Admin() {
     },
   });
 
-  const form = useForm({
+  const { data: reviews = [] } = useQuery<ReviewWithAuthor[]>({
+    queryKey: ["/api/reviews"],
+    queryFn: async () => {
+      const response = await fetch('/api/reviews', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch reviews');
+      }
+      return response.json();
+    },
+  });
+
+  const form = useForm<InsertProduct>({
     resolver: zodResolver(insertProductSchema),
     defaultValues: {
       name: "",
@@ -82,9 +125,18 @@ export default function Admin() {
       price: "",
       image: "",
       categoryId: "",
+      taxClassId: null,
       stock: 0,
+      weight: null,
+      length: null,
+      width: null,
+      height: null,
+      options: [],
+      variants: [],
+      media: [],
     },
   });
+  const variantCount = form.watch("variants")?.length ?? 0;
 
   const addProductMutation = useMutation({
     mutationFn: (data: any) => apiRequest("POST", "/api/products", data),
@@ -109,7 +161,7 @@ export default function Admin() {
 
   const deleteProductMutation = useMutation({
     mutationFn: (productId: string) => apiRequest("DELETE", `/api/products/${productId}`),
-    onSuccess: () => {
+    onSuccess: (_, productId) => {
       // Close the dialog first
       setIsDeleteDialogOpen(false);
       setDeleteProductId(null);
@@ -117,10 +169,16 @@ export default function Admin() {
       // Invalidate all product-related queries
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
 
       toast({
-        title: "Product deleted",
-        description: "The product has been removed from your catalog.",
+        title: "Product moved to trash",
+        description: "You can restore it from the Trash tab.",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreProductMutation.mutate(productId)}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
     onError: (error: any) => {
@@ -135,10 +193,11 @@ export default function Admin() {
   });
 
   const updateOrderStatusMutation = useMutation({
-    mutationFn: ({ orderId, status }: { orderId: string; status: string }) =>
-      apiRequest("PUT", `/api/orders/${orderId}/status`, { status }),
+    mutationFn: ({ orderId, status, note }: { orderId: string; status: OrderStatus; note: string }) =>
+      apiRequest("PUT", `/api/orders/${orderId}/status`, { status, note }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      closeStatusChange();
       toast({
         title: "Order status updated",
         description: "The order status has been updated successfully.",
@@ -177,6 +236,45 @@ export default function Admin() {
 
 
 
+  const moderateReviewMutation = useMutation({
+    mutationFn: ({ reviewId, status }: { reviewId: string; status: string }) =>
+      apiRequest("PUT", `/api/reviews/${reviewId}/status`, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Review updated",
+        description: "The review status has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: (reviewId: string) => apiRequest("DELETE", `/api/reviews/${reviewId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Review deleted",
+        description: "The review has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: any) => {
     if (editingProduct) {
       updateProductMutation.mutate({ productId: editingProduct.id, data });
@@ -185,7 +283,20 @@ export default function Admin() {
     }
   };
 
-  const handleEditProduct = (product: Product) => {
+  const handleEditProduct = async (product: Product) => {
+    // The list doesn't include variants or the full gallery, so load them before opening the dialog
+    let detail: ProductDetail | undefined;
+    try {
+      const response = await fetch(`/api/products/${product.id}`);
+      if (response.ok) {
+        detail = await response.json();
+      }
+    } catch (error) {
+      console.error('Failed to load product details:', error);
+    }
+
+    const variants = detail?.variants ?? [];
+    const media = detail?.media ?? [];
     setEditingProduct(product);
     form.reset({
       name: product.name,
@@ -193,7 +304,18 @@ export default function Admin() {
       price: product.price,
       image: product.image || "",
       categoryId: product.categoryId || "",
+      taxClassId: product.taxClassId,
       stock: product.stock,
+      weight: product.weight,
+      length: product.length,
+      width: product.width,
+      height: product.height,
+      options: product.options,
+      variants: variants.map(({ id, sku, options, price, stock, image }) => ({ id, sku, options, price, stock, image })),
+      // Products created before galleries existed only have products.image
+      media: media.length > 0
+        ? media.map(({ url, alt, isPrimary }) => ({ url, alt, isPrimary }))
+        : product.image ? [{ url: product.image, alt: product.name, isPrimary: true }] : [],
     });
     setIsAddProductOpen(true);
   };
@@ -203,6 +325,25 @@ export default function Admin() {
     setIsDeleteDialogOpen(true);
   };
 
+  const restoreProductMutation = useMutation({
+    mutationFn: (productId: string) => apiRequest("POST", `/api/products/${productId}/restore`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Product restored",
+        description: "The product is back in your catalog.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error restoring product",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const confirmDeleteProduct = () => {
     if (deleteProductId) {
       deleteProductMutation.mutate(deleteProductId);
@@ -210,13 +351,19 @@ export default function Admin() {
     }
   };
 
-  const handleUpdateOrderStatus = (orderId: string, status: string) => {
-    updateOrderStatusMutation.mutate({ orderId, status });
+  const closeStatusChange = () => {
+    setStatusChange(null);
+    setStatusNote("");
+  };
+
+  const handleUpdateOrderStatus = () => {
+    if (!statusChange) return;
+    updateOrderStatusMutation.mutate({ orderId: statusChange.order.id, status: statusChange.status, note: statusNote });
   };
 
   // Calculate stats
   const totalRevenue = orders.reduce((sum, order) => sum + parseFloat(order.totalPrice), 0);
-  const activeProducts = products.filter(p => p.isActive).length;
+  const activeProducts = productList?.total ?? 0;
   const pendingOrders = orders.filter(o => o.status === 'pending').length;
 
   return (
@@ -302,10 +449,22 @@ export default function Admin() {
       <Card>
         <Tabs defaultValue="products" className="w-full">
           <CardHeader>
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="products" data-testid="products-tab">Products</TabsTrigger>
               <TabsTrigger value="orders" data-testid="orders-tab">Orders</TabsTrigger>
               <TabsTrigger value="categories" data-testid="categories-tab">Categories</TabsTrigger>
+              <TabsTrigger value="reviews" data-testid="reviews-tab">
+                Reviews
+                {reviews.some(r => r.status === 'pending') && (
+                  <Badge variant="destructive" className="ml-2">
+                    {reviews.filter(r => r.status === 'pending').length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="promotions" data-testid="promotions-tab">Promotions</TabsTrigger>
+              <TabsTrigger value="tax" data-testid="tax-tab">Tax</TabsTrigger>
+              <TabsTrigger value="shipping" data-testid="shipping-tab">Shipping</TabsTrigger>
+              <TabsTrigger value="trash" data-testid="trash-tab">Trash</TabsTrigger>
             </TabsList>
           </CardHeader>
           
@@ -326,7 +485,7 @@ export default function Admin() {
                       Add Product
                     </Button>
                   </DialogTrigger>
-                  <DialogContent className="max-w-md">
+                  <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>{editingProduct ? "Edit Product" : "Add New Product"}</DialogTitle>
                       <DialogDescription>
@@ -355,7 +514,7 @@ export default function Admin() {
                             <FormItem>
                               <FormLabel>Description</FormLabel>
                               <FormControl>
-                                <Textarea {...field} data-testid="product-description-input" />
+                                <Textarea {...field} value={field.value ?? ""} data-testid="product-description-input" />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
@@ -376,80 +535,11 @@ export default function Admin() {
                         />
                         <FormField
                           control={form.control}
-                          name="image"
-                          render={({ field }) => (
+                          name="media"
+                          render={() => (
                             <FormItem>
-                              <FormLabel>Image</FormLabel>
-                              <FormControl>
-                                <div className="space-y-2">
-                                  <Input
-                                    {...field}
-                                    placeholder="Enter image URL or upload a file"
-                                    data-testid="product-image-input"
-                                  />
-                                  <div className="flex items-center space-x-2">
-                                    <Input
-                                      type="file"
-                                      accept="image/*"
-                                      onChange={async (e) => {
-                                        const file = e.target.files?.[0];
-                                        if (file) {
-                                          const formData = new FormData();
-                                          formData.append('image', file);
-
-                                          try {
-                                            const response = await fetch('/api/upload', {
-                                              method: 'POST',
-                                              headers: {
-                                                'Authorization': token ? `Bearer ${token}` : '',
-                                              },
-                                              body: formData,
-                                            });
-
-                                            console.log('Upload response status:', response.status);
-                                            console.log('Upload response headers:', response.headers);
-
-                                            if (response.ok) {
-                                              const data = await response.json();
-                                              console.log('Upload response data:', data);
-                                              field.onChange(data.filePath);
-                                              toast({
-                                                title: "Image uploaded successfully",
-                                                description: "The image has been uploaded and set for the product.",
-                                              });
-                                              // Reset the file input
-                                              e.target.value = '';
-                                            } else {
-                                              const errorData = await response.text();
-                                              console.log('Upload error response:', errorData);
-                                              toast({
-                                                title: "Upload failed",
-                                                description: `Failed to upload the image: ${response.status} ${response.statusText}`,
-                                                variant: "destructive",
-                                              });
-                                            }
-                                          } catch (error) {
-                                            console.error('Upload error:', error);
-                                            toast({
-                                              title: "Upload error",
-                                              description: "An error occurred while uploading the image.",
-                                              variant: "destructive",
-                                            });
-                                          }
-                                        }
-                                      }}
-                                      className="hidden"
-                                      id="image-upload"
-                                    />
-                                    <Label
-                                      htmlFor="image-upload"
-                                      className="cursor-pointer inline-flex items-center justify-center rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-secondary text-secondary-foreground hover:bg-secondary/80 h-10 px-4 py-2"
-                                    >
-                                      Upload Image
-                                    </Label>
-                                  </div>
-                                </div>
-                              </FormControl>
+                              <FormLabel>Images</FormLabel>
+                              <ProductMediaEditor form={form} />
                               <FormMessage />
                             </FormItem>
                           )}
@@ -460,7 +550,7 @@ export default function Admin() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Category</FormLabel>
-                              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <Select onValueChange={field.onChange} defaultValue={field.value ?? undefined}>
                                 <FormControl>
                                   <SelectTrigger data-testid="product-category-select">
                                     <SelectValue placeholder="Select a category" />
@@ -478,6 +568,34 @@ export default function Admin() {
                             </FormItem>
                           )}
                         />
+                        <FormField
+                          control={form.control}
+                          name="taxClassId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Tax Class</FormLabel>
+                              <Select
+                                onValueChange={(value) => field.onChange(value === "category" ? null : value)}
+                                value={field.value ?? "category"}
+                              >
+                                <FormControl>
+                                  <SelectTrigger data-testid="product-tax-class-select">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="category">Same as category</SelectItem>
+                                  {taxClasses.map((taxClass) => (
+                                    <SelectItem key={taxClass.id} value={taxClass.id}>
+                                      {taxClass.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                         <FormField
                           control={form.control}
                           name="stock"
@@ -489,6 +607,7 @@ export default function Admin() {
                                   type="number" 
                                   {...field} 
                                   onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                  disabled={variantCount > 0}
                                   data-testid="product-stock-input"
                                 />
                               </FormControl>
@@ -496,6 +615,36 @@ export default function Admin() {
                             </FormItem>
                           )}
                         />
+                        <div className="grid grid-cols-4 gap-2">
+                          {([
+                            ["weight", "Weight (kg)"],
+                            ["length", "Length (cm)"],
+                            ["width", "Width (cm)"],
+                            ["height", "Height (cm)"],
+                          ] as const).map(([name, label]) => (
+                            <FormField
+                              key={name}
+                              control={form.control}
+                              name={name}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{label}</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      inputMode="decimal"
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      onChange={(e) => field.onChange(e.target.value.trim() || null)}
+                                      data-testid={`product-${name}-input`}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          ))}
+                        </div>
+                        <ProductVariantsEditor form={form} />
                         <Button
                           type="submit"
                           className="w-full"
@@ -594,6 +743,32 @@ export default function Admin() {
                   </tbody>
                 </table>
               </div>
+
+              {productList && productList.total > ADMIN_PAGE_SIZE && (
+                <div className="flex justify-end items-center gap-4">
+                  <span className="text-sm text-muted-foreground">
+                    Page {productPage} of {Math.ceil(productList.total / ADMIN_PAGE_SIZE)}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setProductPage(productPage - 1)}
+                    disabled={productPage <= 1}
+                    data-testid="admin-previous-page"
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => productList.nextPage && setProductPage(productList.nextPage)}
+                    disabled={!productList.nextPage}
+                    data-testid="admin-next-page"
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
             </TabsContent>
             
             <TabsContent value="orders" className="space-y-4">
@@ -610,76 +785,188 @@ export default function Admin() {
                           <span className="font-semibold" data-testid={`order-id-${order.id}`}>
                             Order #{order.id.slice(0, 8)}
                           </span>
-                          <Badge 
-                            variant={
-                              order.status === 'delivered' ? 'default' :
-                              order.status === 'processing' ? 'secondary' :
-                              order.status === 'shipped' ? 'outline' : 'destructive'
-                            }
-                            data-testid={`order-status-${order.id}`}
-                          >
-                            {order.status}
-                          </Badge>
+                          <OrderStatusBadge status={order.status} testId={`order-status-${order.id}`} />
                         </div>
                         <p className="text-muted-foreground text-sm" data-testid={`order-customer-${order.id}`}>
-                          Customer: {order.customerEmail}
+                          Customer: {order.customerEmail}{!order.userId && " (guest)"}
                         </p>
                         <p className="text-muted-foreground text-sm" data-testid={`order-date-${order.id}`}>
                           Date: {new Date(order.createdAt!).toLocaleDateString()}
                         </p>
+                        {order.shippingAddress && (
+                          <div className="text-muted-foreground text-sm mt-1" data-testid={`order-shipping-address-${order.id}`}>
+                            Ship to: {formatAddressLines(order.shippingAddress).join(", ")}
+                            {order.shippingAddress.phone && ` · ${order.shippingAddress.phone}`}
+                          </div>
+                        )}
+                        {order.shippingMethodName && (
+                          <p className="text-muted-foreground text-sm" data-testid={`order-shipping-${order.id}`}>
+                            Shipping: {order.shippingMethodName} (${parseFloat(order.shippingCost).toFixed(2)})
+                          </p>
+                        )}
+                        {order.couponCode && (
+                          <p className="text-muted-foreground text-sm" data-testid={`order-coupon-${order.id}`}>
+                            Promo: {order.couponCode} (-${parseFloat(order.discountAmount).toFixed(2)})
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="text-xl font-bold" data-testid={`order-total-${order.id}`}>
                           ${parseFloat(order.totalPrice).toFixed(2)}
                         </div>
                         <div className="flex space-x-2 mt-2">
+                          {/* Only the moves the server allows from the current status */}
                           <Select
                             value={order.status}
-                            onValueChange={(status) => handleUpdateOrderStatus(order.id, status)}
+                            onValueChange={(status) => setStatusChange({ order, status: status as OrderStatus })}
+                            disabled={(orderStatusTransitions[order.status as OrderStatus] ?? []).length === 0}
                           >
-                            <SelectTrigger className="w-32">
+                            <SelectTrigger className="w-32" data-testid={`order-status-select-${order.id}`}>
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="pending">Pending</SelectItem>
-                              <SelectItem value="processing">Processing</SelectItem>
-                              <SelectItem value="shipped">Shipped</SelectItem>
-                              <SelectItem value="delivered">Delivered</SelectItem>
-                              <SelectItem value="cancelled">Cancelled</SelectItem>
+                              <SelectItem value={order.status} disabled className="capitalize">{order.status}</SelectItem>
+                              {(orderStatusTransitions[order.status as OrderStatus] ?? []).map((status) => (
+                                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
                       </div>
                     </div>
+                    <OrderTimeline orderId={order.id} />
                   </Card>
                 ))}
               </div>
+
+              <Dialog open={statusChange !== null} onOpenChange={(open) => !open && closeStatusChange()}>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Mark order as {statusChange?.status}?</DialogTitle>
+                    <DialogDescription>
+                      {statusChange?.status === "cancelled"
+                        ? "Cancelling returns the order's items to stock. This can't be undone."
+                        : "The change is recorded in the order's history."}
+                    </DialogDescription>
+                  </DialogHeader>
+                  <Textarea
+                    placeholder="Note (optional), e.g. a tracking number"
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    data-testid="order-status-note"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" onClick={closeStatusChange}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleUpdateOrderStatus}
+                      disabled={updateOrderStatusMutation.isPending}
+                      data-testid="confirm-order-status"
+                    >
+                      {updateOrderStatusMutation.isPending ? "Updating..." : "Update Status"}
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
             </TabsContent>
             
-            <TabsContent value="categories" className="space-y-4">
+            <TabsContent value="categories">
+              <AdminCategories categories={categories} taxClasses={taxClasses} />
+            </TabsContent>
+
+            <TabsContent value="reviews" className="space-y-4">
               <div className="flex justify-between items-center">
-                <h3 className="text-xl font-semibold">Category Management</h3>
+                <h3 className="text-xl font-semibold">Review Moderation</h3>
               </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {categories.map((category) => (
-                  <Card key={category.id} className="p-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
-                        <Package className="text-primary" size={20} />
-                      </div>
-                      <div>
-                        <h4 className="font-semibold" data-testid={`category-name-${category.id}`}>
-                          {category.name}
-                        </h4>
-                        <p className="text-sm text-muted-foreground" data-testid={`category-description-${category.id}`}>
-                          {category.description}
-                        </p>
+
+              {reviews.length === 0 ? (
+                <p className="text-muted-foreground">No reviews yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {reviews.map((review) => (
+                    <Card key={review.id} className="p-4">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <div className="flex items-center space-x-3 mb-1">
+                            <span className="font-semibold" data-testid={`review-product-${review.id}`}>
+                              {review.productName}
+                            </span>
+                            <Badge
+                              variant={
+                                review.status === 'approved' ? 'default' :
+                                review.status === 'pending' ? 'secondary' : 'outline'
+                              }
+                              data-testid={`review-status-${review.id}`}
+                            >
+                              {review.status}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center text-sm text-muted-foreground mb-2">
+                            {[...Array(review.rating)].map((_, i) => (
+                              <Star key={i} size={14} className="fill-yellow-400 text-yellow-400" />
+                            ))}
+                            <span className="ml-2">
+                              by {review.username} on {new Date(review.createdAt!).toLocaleDateString()}
+                            </span>
+                          </div>
+                          {review.title && <p className="font-medium">{review.title}</p>}
+                          {review.body && <p className="text-sm text-muted-foreground">{review.body}</p>}
+                        </div>
+                        <div className="flex space-x-2">
+                          {review.status !== 'approved' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => moderateReviewMutation.mutate({ reviewId: review.id, status: 'approved' })}
+                              data-testid={`approve-review-${review.id}`}
+                            >
+                              <Eye size={16} className="mr-1" />
+                              Approve
+                            </Button>
+                          )}
+                          {review.status !== 'hidden' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => moderateReviewMutation.mutate({ reviewId: review.id, status: 'hidden' })}
+                              data-testid={`hide-review-${review.id}`}
+                            >
+                              <EyeOff size={16} className="mr-1" />
+                              Hide
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteReviewMutation.mutate(review.id)}
+                            className="text-destructive hover:text-destructive"
+                            data-testid={`delete-review-${review.id}`}
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  </Card>
-                ))}
-              </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="promotions">
+              <AdminCoupons categories={categories} />
+            </TabsContent>
+
+            <TabsContent value="tax">
+              <AdminTax />
+            </TabsContent>
+
+            <TabsContent value="shipping">
+              <AdminShipping />
+            </TabsContent>
+
+            <TabsContent value="trash">
+              <AdminTrash />
             </TabsContent>
           </CardContent>
         </Tabs>
@@ -696,7 +983,7 @@ export default function Admin() {
               Hapus Produk?
             </AlertDialogTitle>
             <AlertDialogDescription className="text-muted-foreground mt-2">
-              Tindakan ini tidak dapat dibatalkan. Produk akan dihapus secara permanen dari katalog Anda dan tidak dapat dipulihkan.
+              Produk akan dipindahkan ke Trash dan disembunyikan dari katalog Anda. Anda dapat memulihkannya dari tab Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter className="sm:flex-row sm:justify-center sm:space-x-4">
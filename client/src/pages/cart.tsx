@@ -1,49 +1,336 @@
-import { useState } from "react";
-import { ArrowLeft, Minus, Plus, Trash2, Lock } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeft, Minus, Plus, Trash2, Lock, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AddressForm,
+  emptyAddress,
+  formatAddressLines,
+  validateAddress,
+  type AddressErrors,
+  type AddressFormValues,
+} from "@/components/address-form";
 import { useCart } from "@/lib/cart";
 import { useAuth } from "@/lib/auth";
+import { useGuestOrders } from "@/lib/guest-orders";
 import { useToast } from "@/hooks/use-toast";
 import { Link, useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { guestEmailSchema } from "@shared/schema";
+import type { Address, CartIssue, Destination, Order, OrderQuote, Payment, PostalAddress, ShippingRate, StockShortage } from "@shared/schema";
+
+// Carries the per-line stock errors from a rejected checkout, or the order
+// that was placed when only the payment failed
+class CheckoutError extends Error {
+  constructor(message: string, public shortages: StockShortage[] = [], public orderId?: string) {
+    super(message);
+  }
+}
+
+// A quote that failed because of the promo code rather than the cart itself
+class CouponQuoteError extends Error {}
+
+// Payment methods of the built-in mock provider; a real provider's card form
+// would produce a token like these. Production builds never offer them.
+const testPaymentMethods = import.meta.env.DEV ? [
+  { value: "pm_mock_success", label: "Test card: approved" },
+  { value: "pm_mock_3ds", label: "Test card: asks for bank confirmation" },
+  { value: "pm_mock_decline", label: "Test card: declined" },
+] : [];
+
+// Select value for typing an address instead of picking a saved one
+const NEW_ADDRESS = "new";
+
+const toDestination = (address: { country: string; region: string | null; postalCode: string | null }): Destination => ({
+  country: address.country,
+  region: address.region ?? undefined,
+  postalCode: address.postalCode ?? undefined,
+});
 
 export default function Cart() {
   const [, setLocation] = useLocation();
-  const { items, updateQuantity, removeItem, total, clearCart } = useCart();
-  const { isAuthenticated } = useAuth();
+  const { items, updateQuantity, removeItem, clearCart, acceptPrice, token: cartToken } = useCart();
+  const { isAuthenticated, token } = useAuth();
+  const { tokens: guestOrderTokens, addOrder: addGuestOrder } = useGuestOrders();
   const { toast } = useToast();
   const [promoCode, setPromoCode] = useState("");
+  const [shortages, setShortages] = useState<StockShortage[]>([]);
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null);
+  const [addressChoice, setAddressChoice] = useState<string | null>(null);
+  const [shippingForm, setShippingForm] = useState<AddressFormValues>(emptyAddress);
+  const [shippingErrors, setShippingErrors] = useState<AddressErrors>({});
+  const [saveAddress, setSaveAddress] = useState(true);
+  // Guests give an email instead of signing in
+  const [guestEmail, setGuestEmail] = useState("");
+  const [guestEmailError, setGuestEmailError] = useState<string | null>(null);
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(true);
+  const [billingForm, setBillingForm] = useState<AddressFormValues>(emptyAddress);
+  const [billingErrors, setBillingErrors] = useState<AddressErrors>({});
+  const [paymentMethod, setPaymentMethod] = useState(testPaymentMethods[0]?.value ?? "");
+  const [paymentToConfirm, setPaymentToConfirm] = useState<Payment | null>(null);
+  // A typed address is edited freely and only re-quotes when a field loses focus
+  const [typedDestination, setTypedDestination] = useState<Destination>({ country: "US" });
+  const commitShipTo = () => {
+    if (shippingForm.country.trim().length !== 2) return;
+    setTypedDestination({
+      country: shippingForm.country.trim().toUpperCase(),
+      region: shippingForm.region.trim().toUpperCase() || undefined,
+      postalCode: shippingForm.postalCode.trim().toUpperCase() || undefined,
+    });
+  };
 
-  const shipping = total > 50 ? 0 : 15;
-  const tax = total * 0.08;
-  const finalTotal = total + shipping + tax;
+  const { data: savedAddresses = [] } = useQuery<Address[]>({
+    queryKey: ["/api/addresses"],
+    queryFn: async () => {
+      const response = await fetch('/api/addresses', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch addresses');
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
 
-  const checkoutMutation = useMutation({
-    mutationFn: async () => {
-      const orderItems = items.map(item => ({
-        productId: item.id,
-        quantity: item.quantity,
-        price: item.price,
-      }));
-
-      return apiRequest("POST", "/api/orders", {
-        items: orderItems,
-        totalPrice: finalTotal,
+  // Until the customer picks one, checkout ships to their default address
+  const selectedAddressId = addressChoice ?? savedAddresses.find(a => a.isDefault)?.id ?? NEW_ADDRESS;
+  const savedAddress = savedAddresses.find(a => a.id === selectedAddressId);
+  const destination = savedAddress ? toDestination(savedAddress) : typedDestination;
+
+  const orderItems = items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    quantity: item.quantity,
+  }));
+
+  // Catches price, availability and stock changes since the items were added;
+  // each line is checked against the price the customer last accepted
+  const cartLines = items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    quantity: item.quantity,
+    price: item.price,
+  }));
+  const { data: cartIssues = [], isFetching: isValidating } = useQuery<CartIssue[]>({
+    queryKey: ["/api/cart/validate", cartLines],
+    queryFn: async () => {
+      const response = await fetch('/api/cart/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ items: cartLines }),
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to check your cart');
+      }
+      return data.issues;
     },
-    onSuccess: () => {
-      clearCart();
+    enabled: items.length > 0,
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+  });
+
+  // Not kept across destination changes: the methods differ per zone
+  const { data: shippingRates } = useQuery<ShippingRate[]>({
+    queryKey: ["/api/shipping/rates", orderItems, couponCode, destination],
+    queryFn: async () => {
+      const response = await fetch('/api/shipping/rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({ items: orderItems, couponCode, destination }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load shipping options');
+      }
+      return data;
+    },
+    enabled: items.length > 0,
+    staleTime: 0,
+  });
+
+  // Until the customer picks a method the server quotes the cheapest one
+  const selectedMethodId = shippingRates?.some(rate => rate.methodId === shippingMethodId) ? shippingMethodId : null;
+
+  // Prices, shipping and tax always come from the server
+  const { data: quote, error: quoteError, isFetching: isQuoting } = useQuery<OrderQuote>({
+    queryKey: ["/api/orders/quote", orderItems, couponCode, destination, selectedMethodId],
+    queryFn: async () => {
+      const response = await fetch('/api/orders/quote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({ items: orderItems, couponCode, destination, shippingMethodId: selectedMethodId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const ErrorType = data.field === 'couponCode' ? CouponQuoteError : Error;
+        throw new ErrorType(data.message || 'Failed to price your cart');
+      }
+      return data;
+    },
+    enabled: items.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  // A cart change can make the applied code stop qualifying, e.g. a minimum spend
+  useEffect(() => {
+    if (quoteError instanceof CouponQuoteError) {
+      setCouponCode(null);
       toast({
-        title: "Order placed successfully!",
-        description: "Thank you for your purchase. You will receive a confirmation email shortly.",
+        title: "Promo code removed",
+        description: quoteError.message,
+        variant: "destructive",
+      });
+    }
+  }, [quoteError, toast]);
+
+  const applyCouponMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await fetch('/api/coupons/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify({ code, items: orderItems, destination, shippingMethodId: selectedMethodId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'This promo code is not valid');
+      }
+      return data as { valid: boolean; quote: OrderQuote };
+    },
+    onSuccess: ({ quote }) => {
+      setCouponCode(quote.couponCode);
+      setPromoCode("");
+      toast({
+        title: "Promo code applied",
+        description: quote.discount > 0
+          ? `You save $${quote.discount.toFixed(2)} on this order.`
+          : "Your order ships for free.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Promo code not applied",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatPrice = (amount?: number) => amount === undefined ? "—" : `$${amount.toFixed(2)}`;
+  const formatDays = (rate: ShippingRate) => {
+    if (rate.maxDays === null) return null;
+    if (rate.minDays === null || rate.minDays === rate.maxDays) {
+      return `${rate.maxDays} business day${rate.maxDays === 1 ? "" : "s"}`;
+    }
+    return `${rate.minDays}–${rate.maxDays} business days`;
+  };
+
+  const completeCheckout = (orderId: string) => {
+    setShortages([]);
+    setCouponCode(null);
+    clearCart();
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    toast({
+      title: "Order placed successfully!",
+      description: "Thank you for your purchase. You will receive a confirmation email shortly.",
+    });
+    setLocation(`/account/orders/${orderId}`);
+  };
+
+  // The server cancels a declined order, so trying again places a new one
+  const handlePaymentFailure = (error: any) => {
+    toast({
+      title: "Payment failed",
+      description: `${error.message}. Nothing was charged; try another payment method.`,
+      variant: "destructive",
+    });
+  };
+
+  // Requests about a guest's order carry its lookup token, and the cart
+  // token keeps the guest's Idempotency-Keys apart from everyone else's
+  const orderHeaders = (orderId: string | null): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    'Authorization': token ? `Bearer ${token}` : '',
+    ...(!token && cartToken ? { 'X-Cart-Token': cartToken } : {}),
+    ...(orderId && guestOrderTokens[orderId] ? { 'X-Order-Token': guestOrderTokens[orderId] } : {}),
+  });
+
+  // One Idempotency-Key per checkout attempt. Sending the same request again
+  // before the server answered, by double clicking or after a dropped
+  // connection, reuses the key so the server returns the order it placed.
+  const checkoutAttempt = useRef<{ body: string; key: string } | null>(null);
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (addresses: { shippingAddress: PostalAddress; billingAddress: PostalAddress | null }) => {
+      const body = JSON.stringify({
+        items: orderItems,
+        couponCode,
+        shippingMethodId: selectedMethodId,
+        ...addresses,
+        paymentMethod,
+        email: isAuthenticated ? undefined : guestEmail.trim(),
+      });
+      if (checkoutAttempt.current?.body !== body) {
+        checkoutAttempt.current = { body, key: crypto.randomUUID() };
+      }
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { ...orderHeaders(null), 'Idempotency-Key': checkoutAttempt.current.key },
+        body,
       });
-      setLocation("/");
+      // The server answered, so the next click is a new attempt
+      checkoutAttempt.current = null;
+      const data = await response.json();
+      const orderId: string | undefined = response.ok ? data.id : data.orderId;
+      if (orderId && data.lookupToken) {
+        addGuestOrder(orderId, data.lookupToken);
+      }
+      if (response.ok && isAuthenticated && !savedAddress && saveAddress) {
+        // Saving is a convenience; the order already has its own copy
+        apiRequest("POST", "/api/addresses", addresses.shippingAddress)
+          .then(() => queryClient.invalidateQueries({ queryKey: ["/api/addresses"] }))
+          .catch(() => {});
+      }
+      if (!response.ok) {
+        throw new CheckoutError(data.message || 'An error occurred during checkout.', data.shortages, data.orderId);
+      }
+      return data as Order & { payment: Payment };
+    },
+    onSuccess: (order) => {
+      if (order.payment.status === "requires_action") {
+        setPaymentToConfirm(order.payment);
+        return;
+      }
+      completeCheckout(order.id);
     },
     onError: (error: any) => {
+      if (error instanceof CheckoutError && error.orderId) {
+        handlePaymentFailure(error);
+        return;
+      }
+      setShortages(error instanceof CheckoutError ? error.shortages : []);
       toast({
         title: "Checkout failed",
         description: error.message || "An error occurred during checkout.",
@@ -52,18 +339,56 @@ export default function Cart() {
     },
   });
 
+  // Stands in for the bank's confirmation page of the mock provider
+  const confirmPaymentMutation = useMutation({
+    mutationFn: async ({ payment, approve }: { payment: Payment; approve: boolean }) => {
+      const response = await fetch(`/api/payments/${payment.id}/mock-authenticate`, {
+        method: 'POST',
+        headers: orderHeaders(payment.orderId),
+        body: JSON.stringify({ approve }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new CheckoutError(data.message || 'Payment failed', [], payment.orderId);
+      }
+      return data as Order & { payment: Payment };
+    },
+    onSuccess: (order) => {
+      setPaymentToConfirm(null);
+      if (order.payment.status === "succeeded") {
+        completeCheckout(order.id);
+      } else {
+        handlePaymentFailure(new CheckoutError(order.payment.failureMessage || "Payment failed", [], order.id));
+      }
+    },
+    onError: (error: any) => {
+      setPaymentToConfirm(null);
+      handlePaymentFailure(error);
+    },
+  });
+
   const handleCheckout = () => {
-    if (!isAuthenticated) {
+    const email = isAuthenticated ? null : guestEmailSchema.safeParse(guestEmail);
+    const emailError = email && !email.success ? email.error.errors[0].message : null;
+    setGuestEmailError(emailError);
+
+    const shipping = savedAddress ? { address: savedAddress, errors: {} } : validateAddress(shippingForm);
+    const billing = billingSameAsShipping ? { address: shipping.address, errors: {} } : validateAddress(billingForm);
+    setShippingErrors(shipping.errors);
+    setBillingErrors(billing.errors);
+    if (emailError || !shipping.address || !billing.address) {
       toast({
-        title: "Please log in",
-        description: "You need to be logged in to place an order.",
+        title: emailError ? "Check your details" : "Check your address",
+        description: emailError ? "Your email or address needs attention." : "Some address fields need your attention.",
         variant: "destructive",
       });
-      setLocation("/login");
       return;
     }
 
-    checkoutMutation.mutate();
+    checkoutMutation.mutate({
+      shippingAddress: shipping.address,
+      billingAddress: billingSameAsShipping ? null : billing.address,
+    });
   };
 
   if (items.length === 0) {
@@ -90,66 +415,202 @@ export default function Cart() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Cart Items */}
         <div className="lg:col-span-2 space-y-4">
-          {items.map((item) => (
-            <Card key={item.id} className="p-6">
-              <div className="flex items-center space-x-4">
-                <img 
-                  src={item.image} 
-                  alt={item.name}
-                  className="w-20 h-20 object-cover rounded-lg"
-                  data-testid={`cart-item-image-${item.id}`}
-                />
-                <div className="flex-1">
-                  <h3 className="font-semibold text-lg" data-testid={`cart-item-name-${item.id}`}>
-                    {item.name}
-                  </h3>
-                  <div className="flex items-center space-x-4 mt-2">
-                    <div className="flex items-center space-x-2">
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        className="w-8 h-8"
-                        onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                        data-testid={`decrease-quantity-${item.id}`}
+          {items.map((item) => {
+            const line = quote?.lines.find(l => l.productId === item.productId && (l.variantId ?? undefined) === item.variantId);
+            const shortage = shortages.find(s => s.productId === item.productId && (s.variantId ?? undefined) === item.variantId);
+            const issues = cartIssues.filter(issue => issue.id === item.id);
+            return (
+              <Card key={item.id} className="p-6">
+                <div className="flex items-center space-x-4">
+                  <img 
+                    src={item.image} 
+                    alt={item.name}
+                    className="w-20 h-20 object-cover rounded-lg"
+                    data-testid={`cart-item-image-${item.id}`}
+                  />
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-lg" data-testid={`cart-item-name-${item.id}`}>
+                      {item.name}
+                    </h3>
+                    {item.variantLabel && (
+                      <p className="text-sm text-muted-foreground" data-testid={`cart-item-variant-${item.id}`}>
+                        {item.variantLabel}
+                      </p>
+                    )}
+                    {issues.map((issue) => (
+                      <div
+                        key={issue.type}
+                        className="flex flex-wrap items-center gap-2 text-sm text-destructive"
+                        data-testid={`cart-item-issue-${issue.type}-${item.id}`}
                       >
-                        <Minus size={16} />
-                      </Button>
-                      <span className="w-12 text-center font-medium" data-testid={`item-quantity-${item.id}`}>
-                        {item.quantity}
-                      </span>
+                        <span>{issue.message}</span>
+                        {issue.type === "price_changed" && issue.price !== undefined && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7"
+                            onClick={() => acceptPrice(item.id, issue.price!)}
+                            data-testid={`accept-price-${item.id}`}
+                          >
+                            Accept new price
+                          </Button>
+                        )}
+                        {issue.type === "insufficient_stock" && !!issue.available && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7"
+                            onClick={() => updateQuantity(item.id, issue.available!)}
+                            data-testid={`reduce-quantity-${item.id}`}
+                          >
+                            Reduce to {issue.available}
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    {shortage && item.quantity > shortage.available && issues.length === 0 && (
+                      <p className="text-sm text-destructive" data-testid={`cart-item-stock-error-${item.id}`}>
+                        {shortage.available === 0
+                          ? "Out of stock. Please remove this item."
+                          : `Only ${shortage.available} left in stock. Please reduce the quantity.`}
+                      </p>
+                    )}
+                    <div className="flex items-center space-x-4 mt-2">
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="w-8 h-8"
+                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                          data-testid={`decrease-quantity-${item.id}`}
+                        >
+                          <Minus size={16} />
+                        </Button>
+                        <span className="w-12 text-center font-medium" data-testid={`item-quantity-${item.id}`}>
+                          {item.quantity}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="w-8 h-8"
+                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          data-testid={`increase-quantity-${item.id}`}
+                        >
+                          <Plus size={16} />
+                        </Button>
+                      </div>
                       <Button
-                        variant="outline"
-                        size="icon"
-                        className="w-8 h-8"
-                        onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                        data-testid={`increase-quantity-${item.id}`}
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => removeItem(item.id)}
+                        data-testid={`remove-item-${item.id}`}
                       >
-                        <Plus size={16} />
+                        <Trash2 size={16} className="mr-1" />
+                        Remove
                       </Button>
                     </div>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => removeItem(item.id)}
-                      data-testid={`remove-item-${item.id}`}
-                    >
-                      <Trash2 size={16} className="mr-1" />
-                      Remove
-                    </Button>
                   </div>
-                </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold text-primary" data-testid={`item-total-${item.id}`}>
-                    ${(item.price * item.quantity).toFixed(2)}
-                  </div>
-                  <div className="text-sm text-muted-foreground" data-testid={`item-price-${item.id}`}>
-                    ${item.price.toFixed(2)} each
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-primary" data-testid={`item-total-${item.id}`}>
+                      {formatPrice(line?.lineTotal)}
+                    </div>
+                    <div className="text-sm text-muted-foreground" data-testid={`item-price-${item.id}`}>
+                      {formatPrice(line?.unitPrice ?? item.price)} each
+                    </div>
+                    {line && line.unitPrice !== item.price && (
+                      <div className="text-xs text-muted-foreground line-through" data-testid={`item-old-price-${item.id}`}>
+                        ${item.price.toFixed(2)}
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-            </Card>
-          ))}
+              </Card>
+            );
+          })}
           
+          {/* Addresses */}
+          <Card className="p-6 space-y-4">
+            {!isAuthenticated && (
+              <div>
+                <Label htmlFor="guest-email" className="text-sm">Email</Label>
+                <Input
+                  id="guest-email"
+                  type="email"
+                  value={guestEmail}
+                  onChange={(e) => setGuestEmail(e.target.value)}
+                  aria-invalid={!!guestEmailError}
+                  data-testid="guest-email-input"
+                />
+                {guestEmailError ? (
+                  <p className="text-xs text-destructive mt-1" data-testid="guest-email-error">{guestEmailError}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    We'll send your receipt here. <Link href="/login" className="underline">Log in</Link> to use your account instead.
+                  </p>
+                )}
+              </div>
+            )}
+            <h3 className="font-semibold text-lg" data-testid="shipping-address-title">Shipping address</h3>
+            {savedAddresses.length > 0 && (
+              <Select value={selectedAddressId} onValueChange={setAddressChoice}>
+                <SelectTrigger data-testid="saved-address-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedAddresses.map((address) => (
+                    <SelectItem key={address.id} value={address.id}>
+                      {address.label ? `${address.label}: ` : ""}{address.fullName}, {address.line1}, {address.city}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NEW_ADDRESS}>Enter a new address</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {savedAddress ? (
+              <div className="text-sm text-muted-foreground" data-testid="selected-address">
+                {formatAddressLines(savedAddress).map((line, index) => (
+                  <div key={index}>{line}</div>
+                ))}
+              </div>
+            ) : (
+              <>
+                <AddressForm
+                  idPrefix="shipping"
+                  value={shippingForm}
+                  onChange={setShippingForm}
+                  errors={shippingErrors}
+                  onBlur={commitShipTo}
+                />
+                {isAuthenticated && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="save-address"
+                      checked={saveAddress}
+                      onCheckedChange={(checked) => setSaveAddress(checked === true)}
+                    />
+                    <Label htmlFor="save-address" className="text-sm">Save to my address book</Label>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="billing-same"
+                checked={billingSameAsShipping}
+                onCheckedChange={(checked) => setBillingSameAsShipping(checked === true)}
+                data-testid="billing-same-checkbox"
+              />
+              <Label htmlFor="billing-same" className="text-sm">Billing address is the same as shipping</Label>
+            </div>
+            {!billingSameAsShipping && (
+              <div className="space-y-2">
+                <h3 className="font-semibold" data-testid="billing-address-title">Billing address</h3>
+                <AddressForm idPrefix="billing" value={billingForm} onChange={setBillingForm} errors={billingErrors} />
+              </div>
+            )}
+          </Card>
+
           {/* Continue Shopping */}
           <div className="pt-4">
             <Link href="/products">
@@ -166,26 +627,73 @@ export default function Cart() {
           <Card className="p-6 sticky top-24">
             <h3 className="font-semibold text-lg mb-4" data-testid="order-summary-title">Order Summary</h3>
             
-            <div className="space-y-3 mb-6">
+            {quoteError && !(quoteError instanceof CouponQuoteError) && (
+              <p className="text-sm text-destructive mb-4" data-testid="quote-error">
+                {quoteError.message}
+              </p>
+            )}
+
+            {/* Shipping Method */}
+            {shippingRates && shippingRates.length > 0 && (
+              <div className="mb-4">
+                <Label className="block text-sm font-medium mb-2">Shipping method</Label>
+                <div className="space-y-2">
+                  {shippingRates.map((rate) => {
+                    const selected = (selectedMethodId ?? quote?.shippingMethod?.id) === rate.methodId;
+                    return (
+                      <button
+                        key={rate.methodId}
+                        type="button"
+                        onClick={() => setShippingMethodId(rate.methodId)}
+                        className={`w-full flex items-center justify-between rounded-md border px-3 py-2 text-left text-sm ${
+                          selected ? "border-primary bg-primary/5" : "border-border"
+                        }`}
+                        data-testid={`shipping-method-${rate.methodId}`}
+                      >
+                        <div>
+                          <div className="font-medium">{rate.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[formatDays(rate), rate.description].filter(Boolean).join(" · ")}
+                          </div>
+                        </div>
+                        <span className="font-medium">{rate.cost === 0 ? "Free" : formatPrice(rate.cost)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div className={`space-y-3 mb-6 ${isQuoting ? "opacity-60" : ""}`}>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Subtotal</span>
-                <span data-testid="subtotal">${total.toFixed(2)}</span>
+                <span data-testid="subtotal">{formatPrice(quote?.subtotal)}</span>
               </div>
+              {quote && quote.discount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Discount ({quote.couponCode})</span>
+                  <span data-testid="discount">-{formatPrice(quote.discount)}</span>
+                </div>
+              )}
               <div className="flex justify-between">
-                <span className="text-muted-foreground">Shipping</span>
+                <span className="text-muted-foreground">
+                  Shipping{quote?.shippingMethod ? ` (${quote.shippingMethod.name})` : ""}
+                </span>
                 <span data-testid="shipping">
-                  {shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`}
+                  {quote?.shipping === 0 ? "Free" : formatPrice(quote?.shipping)}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-muted-foreground">Tax</span>
-                <span data-testid="tax">${tax.toFixed(2)}</span>
+                <span className="text-muted-foreground">
+                  {quote && quote.includedTax > 0 && quote.includedTax === quote.tax ? "Tax (included)" : "Tax"}
+                </span>
+                <span data-testid="tax">{formatPrice(quote?.tax)}</span>
               </div>
               <hr className="border-border" />
               <div className="flex justify-between text-lg font-bold">
                 <span>Total</span>
                 <span className="text-primary" data-testid="final-total">
-                  ${finalTotal.toFixed(2)}
+                  {formatPrice(quote?.total)}
                 </span>
               </div>
             </div>
@@ -193,30 +701,75 @@ export default function Cart() {
             {/* Promo Code */}
             <div className="mb-6">
               <Label className="block text-sm font-medium mb-2">Promo Code</Label>
-              <div className="flex gap-2">
-                <Input 
-                  type="text" 
-                  placeholder="Enter code" 
-                  className="bg-muted border-border"
-                  value={promoCode}
-                  onChange={(e) => setPromoCode(e.target.value)}
-                  data-testid="promo-code-input"
-                />
-                <Button 
-                  variant="secondary"
-                  className="font-medium"
-                  data-testid="apply-promo"
+              {couponCode ? (
+                <div className="flex items-center justify-between rounded-md border border-border px-3 py-2" data-testid="applied-promo">
+                  <span className="font-mono font-medium">{couponCode}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCouponCode(null)}
+                    data-testid="remove-promo"
+                  >
+                    <X size={16} />
+                  </Button>
+                </div>
+              ) : (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (promoCode.trim()) applyCouponMutation.mutate(promoCode.trim());
+                  }}
                 >
-                  Apply
-                </Button>
-              </div>
+                  <Input 
+                    type="text" 
+                    placeholder="Enter code" 
+                    className="bg-muted border-border"
+                    value={promoCode}
+                    onChange={(e) => setPromoCode(e.target.value)}
+                    data-testid="promo-code-input"
+                  />
+                  <Button 
+                    type="submit"
+                    variant="secondary"
+                    className="font-medium"
+                    disabled={!promoCode.trim() || applyCouponMutation.isPending}
+                    data-testid="apply-promo"
+                  >
+                    {applyCouponMutation.isPending ? "Applying..." : "Apply"}
+                  </Button>
+                </form>
+              )}
             </div>
             
+            {/* Payment */}
+            {testPaymentMethods.length > 0 && (
+              <div className="mb-6">
+                <Label className="block text-sm font-medium mb-2">Payment (test mode)</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger data-testid="payment-method-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {testPaymentMethods.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {cartIssues.length > 0 && (
+              <p className="text-sm text-destructive mb-4" data-testid="cart-issues-notice">
+                Some items in your cart have changed. Please review them before checking out.
+              </p>
+            )}
+
             {/* Checkout Button */}
             <Button 
               className="w-full bg-accent text-accent-foreground py-3 text-lg font-semibold mb-4 hover:bg-accent/90"
               onClick={handleCheckout}
-              disabled={checkoutMutation.isPending}
+              disabled={checkoutMutation.isPending || !quote || !!quoteError || cartIssues.length > 0 || isValidating}
               data-testid="checkout-button"
             >
               <Lock className="mr-2" size={16} />
@@ -231,6 +784,34 @@ export default function Cart() {
           </Card>
         </div>
       </div>
+
+      <Dialog open={paymentToConfirm !== null} onOpenChange={() => {}}>
+        <DialogContent data-testid="confirm-payment-dialog">
+          <DialogHeader>
+            <DialogTitle>Confirm your payment</DialogTitle>
+            <DialogDescription>
+              Your bank asks you to confirm this payment of {formatPrice(paymentToConfirm ? parseFloat(paymentToConfirm.amount) : undefined)}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              disabled={confirmPaymentMutation.isPending}
+              onClick={() => confirmPaymentMutation.mutate({ payment: paymentToConfirm!, approve: false })}
+              data-testid="decline-payment"
+            >
+              Cancel payment
+            </Button>
+            <Button
+              disabled={confirmPaymentMutation.isPending}
+              onClick={() => confirmPaymentMutation.mutate({ payment: paymentToConfirm!, approve: true })}
+              data-testid="approve-payment"
+            >
+              {confirmPaymentMutation.isPending ? "Confirming..." : "Confirm payment"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
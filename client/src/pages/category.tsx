@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProductCard } from "@/components/product-card";
+import { CategoryBreadcrumb } from "@/components/category-breadcrumb";
+import { CategoryIcon } from "@/components/category-icon";
+import { categorySubtreeCount, childCategories, type Category as CategoryData, type Paginated, type ProductFacets, type ProductListItem } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+// Landing page for one category: its subcategories, then every product filed
+// under it or anywhere below it
+export default function Category() {
+  const { slug } = useParams<{ slug: string }>();
+  const [sortBy, setSortBy] = useState("featured");
+  const [page, setPage] = useState(1);
+
+  const { data: category, isLoading: isCategoryLoading } = useQuery<CategoryData | null>({
+    queryKey: ["/api/categories", "slug", slug],
+    queryFn: async () => {
+      const response = await fetch(`/api/categories/slug/${encodeURIComponent(slug)}`);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch category');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: categories = [] } = useQuery<CategoryData[]>({
+    queryKey: ["/api/categories"],
+    queryFn: async () => {
+      const response = await fetch('/api/categories');
+      if (!response.ok) {
+        throw new Error('Failed to fetch categories');
+      }
+      return response.json();
+    },
+  });
+
+  const { data, isLoading } = useQuery<Paginated<ProductListItem>>({
+    queryKey: ["/api/products", "category", category?.id, sortBy, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        categoryId: category!.id,
+        includeDescendants: 'true',
+        sort: sortBy,
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+      });
+      const response = await fetch(`/api/products?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch products');
+      }
+      return response.json();
+    },
+    enabled: !!category,
+  });
+
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets"],
+    queryFn: async () => {
+      const response = await fetch('/api/products/facets');
+      if (!response.ok) {
+        throw new Error('Failed to fetch product facets');
+      }
+      return response.json();
+    },
+  });
+
+  // A new category or sort order starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [slug, sortBy]);
+
+  if (isCategoryLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-muted-foreground">Loading category...</p>
+      </div>
+    );
+  }
+
+  if (!category) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">Category not found</h1>
+        <Link href="/products">
+          <Button variant="outline">Browse all products</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const subcategories = childCategories(categories, category.id);
+  const products = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2" data-testid="category-title">{category.name}</h1>
+        {category.description && (
+          <p className="text-muted-foreground mb-4" data-testid="category-description">{category.description}</p>
+        )}
+        <CategoryBreadcrumb categories={categories} categoryId={category.id} />
+      </div>
+
+      {subcategories.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-10" data-testid="subcategories">
+          {subcategories.map((subcategory) => (
+            <Link key={subcategory.id} href={`/category/${subcategory.slug}`}>
+              <Card className="p-4 text-center hover:shadow-lg transition-shadow border border-border cursor-pointer">
+                <CardContent className="p-0">
+                  <div className="w-12 h-12 mx-auto mb-3 bg-primary/10 rounded-full flex items-center justify-center">
+                    <CategoryIcon icon={subcategory.icon} size={24} className="text-primary" />
+                  </div>
+                  <h3 className="font-semibold" data-testid={`subcategory-name-${subcategory.id}`}>{subcategory.name}</h3>
+                  <p className="text-muted-foreground text-sm">
+                    {categorySubtreeCount(categories, facets?.categories ?? [], subcategory.id)} products
+                  </p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mb-6">
+        <span className="text-muted-foreground" data-testid="product-count">
+          Showing {products.length} of {total} products
+        </span>
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-48 bg-muted border-border">
+            <SelectValue placeholder="Sort by..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="featured">Sort by: Featured</SelectItem>
+            <SelectItem value="price-asc">Price: Low to High</SelectItem>
+            <SelectItem value="price-desc">Price: High to Low</SelectItem>
+            <SelectItem value="rating">Highest Rated</SelectItem>
+            <SelectItem value="newest">Newest First</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading products...</p>
+      ) : products.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {products.map((product) => (
+            <ProductCard
+              key={product.id}
+              product={product}
+              categoryName={categories.find(c => c.id === product.categoryId)?.name}
+            />
+          ))}
+        </div>
+      ) : (
+        <Card className="p-12 text-center">
+          <h3 className="text-lg font-semibold mb-2">No products yet</h3>
+          <p className="text-muted-foreground">Nothing has been added to this category.</p>
+        </Card>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex justify-center items-center gap-4 mt-8">
+          <Button
+            variant="outline"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            data-testid="previous-page"
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground" data-testid="page-indicator">
+            Page {page} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            onClick={() => data?.nextPage && setPage(data.nextPage)}
+            disabled={!data?.nextPage}
+            data-testid="next-page"
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
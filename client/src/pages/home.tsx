@@ -1,19 +1,20 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useEffect } from "react";
-import { ArrowRight, Laptop, Shirt, Home as HomeIcon, Dumbbell } from "lucide-react";
+import { ArrowRight, Laptop } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ProductCard } from "@/components/product-card";
+import { CategoryIcon } from "@/components/category-icon";
 import { Link } from "wouter";
-import type { Product, Category } from "@shared/schema";
+import { categorySubtreeCount, childCategories, type ProductListItem, type Category, type Paginated, type ProductFacets } from "@shared/schema";
 
 export default function Home() {
   const queryClient = useQueryClient();
 
-  const { data: products = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: featured } = useQuery<Paginated<ProductListItem>>({
+    queryKey: ["/api/products", "featured"],
     queryFn: async () => {
-      const response = await fetch('/api/products');
+      const response = await fetch('/api/products?sort=featured&pageSize=4');
       if (!response.ok) {
         throw new Error('Failed to fetch products');
       }
@@ -32,6 +33,17 @@ export default function Home() {
     },
   });
 
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets"],
+    queryFn: async () => {
+      const response = await fetch('/api/products/facets');
+      if (!response.ok) {
+        throw new Error('Failed to fetch product facets');
+      }
+      return response.json();
+    },
+  });
+
   // Invalidate queries on mount and window focus to ensure fresh data
   useEffect(() => {
     queryClient.invalidateQueries({ queryKey: ["/api/products"] });
@@ -48,14 +60,7 @@ export default function Home() {
     return () => window.removeEventListener('focus', handleFocus);
   }, [queryClient]);
 
-  const featuredProducts = products.slice(0, 4);
-
-  const categoryIcons = {
-    "Electronics": Laptop,
-    "Fashion": Shirt,
-    "Home & Garden": HomeIcon,
-    "Sports": Dumbbell,
-  };
+  const featuredProducts = featured?.items ?? [];
 
   return (
     <div className="min-h-screen">
@@ -85,21 +90,19 @@ export default function Home() {
           Shop by Category
         </h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
-          {categories.map((category) => {
-            const IconComponent = categoryIcons[category.name as keyof typeof categoryIcons] || Laptop;
-            
+          {childCategories(categories, null).map((category) => {
             return (
-              <Link key={category.id} href={`/products?category=${category.id}`}>
+              <Link key={category.id} href={`/category/${category.slug}`}>
                 <Card className="p-6 text-center hover:shadow-lg transition-shadow border border-border cursor-pointer">
                   <CardContent className="p-0">
                     <div className="w-16 h-16 mx-auto mb-4 bg-primary/10 rounded-full flex items-center justify-center">
-                      <IconComponent size={32} className="text-primary" />
+                      <CategoryIcon icon={category.icon} size={32} className="text-primary" />
                     </div>
                     <h3 className="font-semibold text-lg mb-1" data-testid={`category-name-${category.id}`}>
                       {category.name}
                     </h3>
                     <p className="text-muted-foreground text-sm" data-testid={`category-count-${category.id}`}>
-                      {products.filter(p => p.categoryId === category.id).length} products
+                      {categorySubtreeCount(categories, facets?.categories ?? [], category.id)} products
                     </p>
                   </CardContent>
                 </Card>
@@ -146,10 +149,10 @@ export default function Home() {
             <div>
               <h4 className="font-semibold mb-4">Shop</h4>
               <ul className="space-y-2 text-sm text-muted-foreground">
-                <li><Link href="/products?category=electronics" className="hover:text-foreground transition-colors">Electronics</Link></li>
-                <li><Link href="/products?category=fashion" className="hover:text-foreground transition-colors">Fashion</Link></li>
-                <li><Link href="/products?category=home" className="hover:text-foreground transition-colors">Home & Garden</Link></li>
-                <li><Link href="/products?category=sports" className="hover:text-foreground transition-colors">Sports</Link></li>
+                <li><Link href="/category/electronics" className="hover:text-foreground transition-colors">Electronics</Link></li>
+                <li><Link href="/category/fashion" className="hover:text-foreground transition-colors">Fashion</Link></li>
+                <li><Link href="/category/home-and-garden" className="hover:text-foreground transition-colors">Home & Garden</Link></li>
+                <li><Link href="/category/sports" className="hover:text-foreground transition-colors">Sports</Link></li>
               </ul>
             </div>
             <div>
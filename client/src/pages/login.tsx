@@ -7,6 +7,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/lib/auth";
+import { useCart } from "@/lib/cart";
+import { useWishlist } from "@/lib/wishlist";
+import { claimGuestOrders } from "@/lib/guest-orders";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { loginSchema, type LoginData } from "@shared/schema";
@@ -15,6 +18,8 @@ import { Link, useLocation } from "wouter";
 export default function Login() {
   const [, setLocation] = useLocation();
   const { login } = useAuth();
+  const { mergeGuestCart } = useCart();
+  const { mergeGuestWishlist } = useWishlist();
   const { toast } = useToast();
 
   const form = useForm<LoginData>({
@@ -30,6 +35,9 @@ export default function Login() {
     onSuccess: async (response) => {
       const result = await response.json();
       login(result.user, result.token);
+      mergeGuestCart();
+      mergeGuestWishlist();
+      claimGuestOrders();
       toast({
         title: "Welcome back!",
         description: "You have been successfully logged in.",
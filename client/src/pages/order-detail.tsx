@@ -0,0 +1,225 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams, useSearch } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { formatAddressLines } from "@/components/address-form";
+import { OrderHistoryList } from "@/components/order-timeline";
+import { OrderStatusBadge } from "@/components/order-status-badge";
+import { useAuth } from "@/lib/auth";
+import { useGuestOrders } from "@/lib/guest-orders";
+import type { OrderDetail as OrderDetailData } from "@shared/schema";
+
+const formatPrice = (value: string) => `$${parseFloat(value).toFixed(2)}`;
+
+export default function OrderDetail() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, token } = useAuth();
+  const { tokens: guestOrderTokens, addOrder: addGuestOrder } = useGuestOrders();
+  // Guests open their order with its lookup token: kept from checkout in this
+  // browser, or taken from a saved link
+  const linkToken = new URLSearchParams(useSearch()).get("token");
+  const lookupToken = linkToken ?? (id ? guestOrderTokens[id] : undefined);
+  const canLoad = isAuthenticated || !!lookupToken;
+
+  useEffect(() => {
+    if (!canLoad) {
+      setLocation('/login');
+    }
+  }, [canLoad, setLocation]);
+
+  // Remembered so the order can be claimed when the guest signs up
+  useEffect(() => {
+    if (id && linkToken && !guestOrderTokens[id]) {
+      addGuestOrder(id, linkToken);
+    }
+  }, [id, linkToken, guestOrderTokens, addGuestOrder]);
+
+  const { data: order, isLoading, error } = useQuery<OrderDetailData>({
+    queryKey: ["/api/orders", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/orders/${id}`, {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+          ...(lookupToken ? { 'X-Order-Token': lookupToken } : {}),
+        },
+      });
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Order not found' : 'Failed to fetch order');
+      }
+      return response.json();
+    },
+    enabled: canLoad && !!id,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-muted-foreground">Loading order...</p>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">Order not found</h1>
+        <Link href={isAuthenticated ? "/account/orders" : "/products"}>
+          <Button variant="outline">{isAuthenticated ? "Back to my orders" : "Continue shopping"}</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const totals = [
+    { label: "Subtotal", value: formatPrice(order.subtotal) },
+    ...(parseFloat(order.discountAmount) > 0
+      ? [{ label: order.couponCode ? `Discount (${order.couponCode})` : "Discount", value: `-${formatPrice(order.discountAmount)}` }]
+      : []),
+    { label: order.shippingMethodName ? `Shipping (${order.shippingMethodName})` : "Shipping", value: formatPrice(order.shippingCost) },
+    { label: "Tax", value: formatPrice(order.taxAmount) },
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link href={isAuthenticated ? "/account/orders" : "/products"}>
+        <Button variant="ghost" size="sm" className="mb-4 px-0" data-testid="back-to-orders">
+          <ArrowLeft className="mr-2" size={16} />
+          {isAuthenticated ? "My orders" : "Continue shopping"}
+        </Button>
+      </Link>
+
+      <div className="flex items-center space-x-4 mb-2">
+        <h1 className="text-3xl font-bold" data-testid="order-title">Order #{order.id.slice(0, 8)}</h1>
+        <OrderStatusBadge status={order.status} testId="order-status" />
+      </div>
+      <p className="text-muted-foreground mb-8">
+        Placed on {new Date(order.createdAt!).toLocaleString()}
+      </p>
+
+      {!order.userId && lookupToken && (
+        <Card className="p-4 mb-6 text-sm" data-testid="guest-order-notice">
+          <p>
+            You checked out as a guest.{" "}
+            <Link href="/register" className="font-medium underline">Create an account</Link>
+            {" "}with {order.customerEmail} on this device to add this order to it.
+          </p>
+          <p className="text-muted-foreground mt-1">
+            Until then, keep{" "}
+            <a href={`/account/orders/${order.id}?token=${encodeURIComponent(lookupToken)}`} className="underline" data-testid="guest-order-link">
+              this link
+            </a>
+            {" "}to come back to your order.
+          </p>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {order.items.map((item) => (
+                <div key={item.id} className="flex items-center space-x-4" data-testid={`order-item-${item.id}`}>
+                  {item.image ? (
+                    <img src={item.image} alt={item.name} className="w-16 h-16 object-cover rounded-md" />
+                  ) : (
+                    <div className="w-16 h-16 rounded-md bg-muted" />
+                  )}
+                  <div className="flex-1">
+                    {item.productId ? (
+                      <Link href={`/products/${item.productId}`} className="font-medium hover:underline">
+                        {item.name}
+                      </Link>
+                    ) : (
+                      <p className="font-medium">{item.name}</p>
+                    )}
+                    {item.variantLabel && (
+                      <p className="text-sm text-muted-foreground">{item.variantLabel}</p>
+                    )}
+                    {item.sku && (
+                      <p className="text-xs text-muted-foreground" data-testid={`order-item-sku-${item.id}`}>SKU {item.sku}</p>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {item.quantity} × {formatPrice(item.price)}
+                    </p>
+                  </div>
+                  <span className="font-medium">
+                    ${(parseFloat(item.price) * item.quantity).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderHistoryList orderId={order.id} history={order.history} showChangedBy={false} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {totals.map((row) => (
+                <div key={row.label} className="flex justify-between">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span>{row.value}</span>
+                </div>
+              ))}
+              <Separator />
+              <div className="flex justify-between font-semibold text-base" data-testid="order-total">
+                <span>Total</span>
+                <span>{formatPrice(order.totalPrice)}</span>
+              </div>
+              {order.payments.length > 0 && (
+                <p className="text-muted-foreground pt-2" data-testid="order-payment-status">
+                  Payment: {order.payments[0].status.replace(/_/g, " ")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {order.shippingAddress && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Shipping address</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground" data-testid="order-shipping-address">
+                {formatAddressLines(order.shippingAddress).map((line, index) => (
+                  <div key={index}>{line}</div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {order.billingAddress && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Billing address</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground" data-testid="order-billing-address">
+                {formatAddressLines(order.billingAddress).map((line, index) => (
+                  <div key={index}>{line}</div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
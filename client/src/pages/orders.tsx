@@ -0,0 +1,77 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { OrderStatusBadge } from "@/components/order-status-badge";
+import { useAuth } from "@/lib/auth";
+import type { Order } from "@shared/schema";
+
+export default function Orders() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated, token } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLocation('/login');
+    }
+  }, [isAuthenticated, setLocation]);
+
+  const { data: orders = [], isLoading } = useQuery<Order[]>({
+    queryKey: ["/api/orders"],
+    queryFn: async () => {
+      const response = await fetch('/api/orders', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch orders');
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold mb-8" data-testid="orders-title">My Orders</h1>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading orders...</p>
+      ) : orders.length === 0 ? (
+        <Card className="p-12 text-center">
+          <p className="text-muted-foreground mb-4">You haven't placed any orders yet.</p>
+          <Link href="/products">
+            <Button data-testid="start-shopping">Start shopping</Button>
+          </Link>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <Link key={order.id} href={`/account/orders/${order.id}`}>
+              <Card className="p-4 flex items-center justify-between cursor-pointer hover:bg-accent/50" data-testid={`order-${order.id}`}>
+                <div>
+                  <div className="flex items-center space-x-3 mb-1">
+                    <span className="font-semibold">Order #{order.id.slice(0, 8)}</span>
+                    <OrderStatusBadge status={order.status} testId={`order-status-${order.id}`} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Placed on {new Date(order.createdAt!).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold" data-testid={`order-total-${order.id}`}>
+                    ${parseFloat(order.totalPrice).toFixed(2)}
+                  </span>
+                  <ChevronRight className="text-muted-foreground" size={18} />
+                </div>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
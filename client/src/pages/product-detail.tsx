@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Minus, Plus, ShoppingCart, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useCart } from "@/lib/cart";
+import { useToast } from "@/hooks/use-toast";
+import { ProductGallery, type GalleryImage } from "@/components/product-gallery";
+import { ProductReviews } from "@/components/product-reviews";
+import { CategoryBreadcrumb } from "@/components/category-breadcrumb";
+import type { ProductDetail as ProductDetailData, Category } from "@shared/schema";
+
+export default function ProductDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { addItem } = useCart();
+  const { toast } = useToast();
+  const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
+
+  const { data: product, isLoading } = useQuery<ProductDetailData | null>({
+    queryKey: ["/api/products", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/products/${id}`);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch product');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    queryFn: async () => {
+      const response = await fetch('/api/categories');
+      if (!response.ok) {
+        throw new Error('Failed to fetch categories');
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 animate-pulse">
+          <div className="aspect-square bg-muted rounded-lg"></div>
+          <div className="space-y-4">
+            <div className="h-8 bg-muted rounded w-3/4"></div>
+            <div className="h-6 bg-muted rounded w-1/4"></div>
+            <div className="h-24 bg-muted rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="p-12 text-center">
+          <h1 className="text-3xl font-bold mb-4" data-testid="product-not-found">Product not found</h1>
+          <p className="text-muted-foreground mb-6">
+            This product doesn't exist or is no longer available.
+          </p>
+          <Link href="/products">
+            <Button data-testid="back-to-products">
+              <ArrowLeft className="mr-2" size={16} />
+              Back to Products
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const category = categories.find(c => c.id === product.categoryId);
+  const rating = parseFloat(product.rating || "0");
+
+  const hasVariants = product.variants.length > 0;
+  const allOptionsChosen = product.options.every(option => selectedOptions[option.name]);
+  const variant = hasVariants && allOptionsChosen
+    ? product.variants.find(v => product.options.every(o => v.options[o.name] === selectedOptions[o.name]))
+    : undefined;
+  const variantLabel = variant ? product.options.map(o => variant.options[o.name]).join(" / ") : undefined;
+
+  const price = parseFloat(variant?.price ?? product.price);
+  const image = variant?.image || product.image;
+
+  const galleryImages: GalleryImage[] = product.media.length > 0
+    ? product.media.map(m => ({ url: m.url, alt: m.alt || product.name }))
+    : [{ url: product.image, alt: product.name }];
+  if (variant?.image && !galleryImages.some(g => g.url === variant.image)) {
+    galleryImages.push({ url: variant.image, alt: `${product.name} – ${variantLabel}` });
+  }
+  const galleryIndex = variant?.image
+    ? galleryImages.findIndex(g => g.url === variant.image)
+    : Math.max(0, product.media.findIndex(m => m.isPrimary));
+  const stock = hasVariants ? (variant?.stock ?? 0) : product.stock;
+  const inStock = stock > 0;
+  const canAddToCart = inStock && (!hasVariants || !!variant);
+
+  // A value is only offered when some in-stock variant has it alongside the other choices
+  const isValueAvailable = (optionName: string, value: string) =>
+    product.variants.some(v =>
+      v.stock > 0 &&
+      v.options[optionName] === value &&
+      product.options.every(o => o.name === optionName || !selectedOptions[o.name] || v.options[o.name] === selectedOptions[o.name])
+    );
+
+  const selectOption = (optionName: string, value: string) => {
+    setSelectedOptions(current => ({ ...current, [optionName]: value }));
+    setQuantity(1);
+  };
+
+  const handleAddToCart = () => {
+    addItem({
+      productId: product.id,
+      variantId: variant?.id,
+      variantLabel,
+      name: product.name,
+      price,
+      image,
+    }, quantity);
+
+    toast({
+      title: "Added to cart",
+      description: `${quantity} × ${product.name}${variantLabel ? ` (${variantLabel})` : ""} has been added to your cart.`,
+    });
+    setQuantity(1);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <CategoryBreadcrumb
+        categories={categories}
+        categoryId={product.categoryId}
+        current={product.name}
+        className="mb-8"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Gallery */}
+        <ProductGallery images={galleryImages} activeIndex={galleryIndex} />
+
+        {/* Details */}
+        <div>
+          {category && (
+            <Badge variant="secondary" className="mb-3 bg-accent/10 text-accent" data-testid="product-detail-category">
+              {category.name}
+            </Badge>
+          )}
+          <h1 className="text-3xl font-bold mb-3" data-testid="product-detail-name">{product.name}</h1>
+
+          <div className="flex items-center mb-4">
+            {[...Array(5)].map((_, i) => (
+              <Star
+                key={i}
+                size={16}
+                className={i < Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}
+              />
+            ))}
+            <span className="text-muted-foreground text-sm ml-2" data-testid="product-detail-rating">
+              {rating.toFixed(1)} ({product.reviewCount} reviews)
+            </span>
+          </div>
+
+          <div className="text-3xl font-bold text-primary mb-6" data-testid="product-detail-price">
+            ${price.toFixed(2)}
+          </div>
+
+          <p className="text-muted-foreground whitespace-pre-line mb-6" data-testid="product-detail-description">
+            {product.description || "No description available."}
+          </p>
+
+          {/* Variant options */}
+          {product.options.map((option) => (
+            <div key={option.name} className="mb-4">
+              <div className="text-sm font-medium mb-2">
+                {option.name}
+                {selectedOptions[option.name] && (
+                  <span className="text-muted-foreground font-normal">: {selectedOptions[option.name]}</span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {option.values.map((value) => (
+                  <Button
+                    key={value}
+                    variant={selectedOptions[option.name] === value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => selectOption(option.name, value)}
+                    disabled={!isValueAvailable(option.name, value)}
+                    data-testid={`option-${option.name}-${value}`}
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="mb-6" data-testid="product-detail-stock">
+            {hasVariants && !variant ? (
+              <span className="text-muted-foreground">
+                Select {product.options.map(o => o.name.toLowerCase()).join(" and ")} to see availability
+              </span>
+            ) : inStock ? (
+              <span className="text-green-600 font-medium">
+                In stock{stock <= 10 ? ` — only ${stock} left` : ""}
+              </span>
+            ) : (
+              <span className="text-destructive font-medium">Out of stock</span>
+            )}
+            {variant && (
+              <span className="text-muted-foreground text-sm ml-3" data-testid="product-detail-sku">
+                SKU: {variant.sku}
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="icon"
+                className="w-10 h-10"
+                onClick={() => setQuantity(q => Math.max(1, q - 1))}
+                disabled={!canAddToCart || quantity <= 1}
+                data-testid="decrease-detail-quantity"
+              >
+                <Minus size={16} />
+              </Button>
+              <span className="w-12 text-center font-medium" data-testid="detail-quantity">
+                {quantity}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                className="w-10 h-10"
+                onClick={() => setQuantity(q => Math.min(stock, q + 1))}
+                disabled={!canAddToCart || quantity >= stock}
+                data-testid="increase-detail-quantity"
+              >
+                <Plus size={16} />
+              </Button>
+            </div>
+            <Button
+              className="flex-1 bg-accent text-accent-foreground hover:bg-accent/90 font-semibold"
+              size="lg"
+              onClick={handleAddToCart}
+              disabled={!canAddToCart}
+              data-testid="detail-add-to-cart"
+            >
+              <ShoppingCart size={18} className="mr-2" />
+              Add to Cart
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ProductReviews productId={product.id} />
+    </div>
+  );
+}
@@ -8,14 +8,31 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { ProductCard } from "@/components/product-card";
-import type { Product, Category } from "@shared/schema";
+import { CategoryBreadcrumb } from "@/components/category-breadcrumb";
+import { useSearch } from "wouter";
+import { categorySubtreeCount, childCategories, type ProductListItem, type Category, type Paginated, type ProductFacets } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+function formatPriceBucket(min: number, max: number | null) {
+  return max === null ? `$${min}+` : `$${min} – $${max}`;
+}
 
 export default function Products() {
+  const search = useSearch();
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("");
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(() => {
+    const category = new URLSearchParams(search).get("category");
+    return category ? [category] : [];
+  });
   const [minPrice, setMinPrice] = useState<string>("");
   const [maxPrice, setMaxPrice] = useState<string>("");
+  // Set while the range is one of the facet's buckets rather than typed in
+  const [priceBucket, setPriceBucket] = useState(false);
+  const [minRating, setMinRating] = useState<number | null>(null);
+  const [inStockOnly, setInStockOnly] = useState(false);
   const [sortBy, setSortBy] = useState("featured");
+  const [page, setPage] = useState(1);
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
 
   const { data: categories = [] } = useQuery<Category[]>({
@@ -31,14 +48,25 @@ export default function Products() {
 
   const queryClient = useQueryClient();
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products", searchTerm, selectedCategory, minPrice, maxPrice],
+  const filterParams = new URLSearchParams();
+  if (searchTerm) filterParams.append('search', searchTerm);
+  selectedCategories.forEach((id) => filterParams.append('categoryId', id));
+  // Picking a category includes everything filed under its subcategories
+  if (selectedCategories.length > 0) filterParams.append('includeDescendants', 'true');
+  if (minPrice) filterParams.append('minPrice', minPrice);
+  if (maxPrice) filterParams.append('maxPrice', maxPrice);
+  if (maxPrice && priceBucket) filterParams.append('maxPriceExclusive', 'true');
+  if (minRating !== null) filterParams.append('minRating', minRating.toString());
+  if (inStockOnly) filterParams.append('inStock', 'true');
+  const filterKey = filterParams.toString();
+
+  const { data, isLoading } = useQuery<Paginated<ProductListItem>>({
+    queryKey: ["/api/products", filterKey, sortBy, page],
     queryFn: async () => {
-      const params = new URLSearchParams();
-      if (searchTerm) params.append('search', searchTerm);
-      if (selectedCategory) params.append('categoryId', selectedCategory);
-      if (minPrice) params.append('minPrice', minPrice);
-      if (maxPrice) params.append('maxPrice', maxPrice);
+      const params = new URLSearchParams(filterKey);
+      params.append('sort', sortBy);
+      params.append('page', page.toString());
+      params.append('pageSize', PAGE_SIZE.toString());
 
       const response = await fetch(`/api/products?${params.toString()}`);
       if (!response.ok) {
@@ -48,6 +76,26 @@ export default function Products() {
     },
   });
 
+  const { data: facets } = useQuery<ProductFacets>({
+    queryKey: ["/api/products", "facets", filterKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/products/facets?${filterKey}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch product facets');
+      }
+      return response.json();
+    },
+  });
+
+  const products = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any change to the filters or sort order starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [filterKey, sortBy]);
+
   // Invalidate products query on mount to ensure fresh data
   useEffect(() => {
     queryClient.invalidateQueries({ queryKey: ["/api/products"] });
@@ -63,34 +111,38 @@ export default function Products() {
     return () => window.removeEventListener('focus', handleFocus);
   }, [queryClient]);
 
-  const sortedProducts = [...products].sort((a, b) => {
-    switch (sortBy) {
-      case "price-low":
-        return parseFloat(a.price) - parseFloat(b.price);
-      case "price-high":
-        return parseFloat(b.price) - parseFloat(a.price);
-      case "rating":
-        return parseFloat(b.rating || "0") - parseFloat(a.rating || "0");
-      case "newest":
-        return new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime();
-      default:
-        return 0;
-    }
-  });
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    setSelectedCategories((current) =>
+      checked ? [...current, categoryId] : current.filter((id) => id !== categoryId)
+    );
+  };
 
-  const categoryProductCounts = categories.reduce((acc, cat) => {
-    acc[cat.id] = products.filter(p => p.categoryId === cat.id).length;
-    return acc;
-  }, {} as Record<string, number>);
+  // Subcategories are indented under their parent; counts include them
+  const renderCategoryFilters = (parentId: string | null, depth: number): JSX.Element[] =>
+    childCategories(categories, parentId).flatMap((category) => [
+      <div key={category.id} className="flex items-center space-x-2" style={{ paddingLeft: depth * 16 }}>
+        <Checkbox 
+          id={category.id}
+          checked={selectedCategories.includes(category.id)}
+          onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+          data-testid={`category-filter-${category.id}`}
+        />
+        <Label htmlFor={category.id} className="text-sm cursor-pointer">
+          {category.name} ({categorySubtreeCount(categories, facets?.categories ?? [], category.id)})
+        </Label>
+      </div>,
+      ...renderCategoryFilters(category.id, depth + 1),
+    ]);
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Page Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-4" data-testid="products-title">All Products</h1>
-        <nav className="text-sm text-muted-foreground">
-          <span>Home</span> <span className="mx-2">›</span> <span>Products</span>
-        </nav>
+        <CategoryBreadcrumb
+          categories={categories}
+          categoryId={selectedCategories.length === 1 ? selectedCategories[0] : null}
+        />
       </div>
       
       <div className="flex flex-col lg:flex-row gap-8">
@@ -119,21 +171,7 @@ export default function Products() {
             <div className="mb-6">
               <Label className="block text-sm font-medium mb-2">Category</Label>
               <div className="space-y-2">
-                {categories.map((category) => (
-                  <div key={category.id} className="flex items-center space-x-2">
-                    <Checkbox 
-                      id={category.id}
-                      checked={selectedCategory === category.id}
-                      onCheckedChange={(checked) => {
-                        setSelectedCategory(checked ? category.id : "");
-                      }}
-                      data-testid={`category-filter-${category.id}`}
-                    />
-                    <Label htmlFor={category.id} className="text-sm cursor-pointer">
-                      {category.name} ({categoryProductCounts[category.id] || 0})
-                    </Label>
-                  </div>
-                ))}
+                {renderCategoryFilters(null, 0)}
               </div>
             </div>
             
@@ -146,7 +184,10 @@ export default function Products() {
                   placeholder="Min" 
                   className="bg-muted border-border text-sm"
                   value={minPrice}
-                  onChange={(e) => setMinPrice(e.target.value)}
+                  onChange={(e) => {
+                    setMinPrice(e.target.value);
+                    setPriceBucket(false);
+                  }}
                   data-testid="min-price-input"
                 />
                 <Input 
@@ -154,10 +195,78 @@ export default function Products() {
                   placeholder="Max" 
                   className="bg-muted border-border text-sm"
                   value={maxPrice}
-                  onChange={(e) => setMaxPrice(e.target.value)}
+                  onChange={(e) => {
+                    setMaxPrice(e.target.value);
+                    setPriceBucket(false);
+                  }}
                   data-testid="max-price-input"
                 />
               </div>
+              <div className="space-y-1">
+                {facets?.price.map((bucket) => {
+                  const isSelected = priceBucket && minPrice === bucket.min.toString() && maxPrice === (bucket.max?.toString() ?? "");
+                  return (
+                    <button
+                      key={bucket.min}
+                      className={`flex w-full justify-between text-sm transition-colors ${
+                        isSelected ? 'text-primary font-medium' : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                      onClick={() => {
+                        if (isSelected) {
+                          setMinPrice("");
+                          setMaxPrice("");
+                          setPriceBucket(false);
+                        } else {
+                          setMinPrice(bucket.min.toString());
+                          setMaxPrice(bucket.max?.toString() ?? "");
+                          setPriceBucket(true);
+                        }
+                      }}
+                      disabled={bucket.count === 0 && !isSelected}
+                      data-testid={`price-bucket-${bucket.min}`}
+                    >
+                      <span>{formatPriceBucket(bucket.min, bucket.max)}</span>
+                      <span>({bucket.count})</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Rating */}
+            <div className="mb-6">
+              <Label className="block text-sm font-medium mb-2">Rating</Label>
+              <div className="space-y-2">
+                {facets?.rating.map((bucket) => (
+                  <div key={bucket.min} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`rating-${bucket.min}`}
+                      checked={minRating === bucket.min}
+                      onCheckedChange={(checked) => setMinRating(checked ? bucket.min : null)}
+                      data-testid={`rating-filter-${bucket.min}`}
+                    />
+                    <Label htmlFor={`rating-${bucket.min}`} className="text-sm cursor-pointer">
+                      {bucket.min}★ & up ({bucket.count})
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Availability */}
+            <div className="mb-6">
+              <Label className="block text-sm font-medium mb-2">Availability</Label>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="in-stock"
+                  checked={inStockOnly}
+                  onCheckedChange={(checked) => setInStockOnly(checked === true)}
+                  data-testid="in-stock-filter"
+                />
+                <Label htmlFor="in-stock" className="text-sm cursor-pointer">
+                  In stock only ({facets?.availability.inStock ?? 0})
+                </Label>
+              </div>
             </div>
             
             <Button 
@@ -178,7 +287,7 @@ export default function Products() {
           {/* Sort and View Options */}
           <div className="flex justify-between items-center mb-6">
             <span className="text-muted-foreground" data-testid="product-count">
-              Showing {sortedProducts.length} products
+              Showing {products.length} of {total} products
             </span>
             <div className="flex items-center gap-4">
               <Select value={sortBy} onValueChange={setSortBy}>
@@ -187,8 +296,8 @@ export default function Products() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="featured">Sort by: Featured</SelectItem>
-                  <SelectItem value="price-low">Price: Low to High</SelectItem>
-                  <SelectItem value="price-high">Price: High to Low</SelectItem>
+                  <SelectItem value="price-asc">Price: Low to High</SelectItem>
+                  <SelectItem value="price-desc">Price: High to Low</SelectItem>
                   <SelectItem value="rating">Highest Rated</SelectItem>
                   <SelectItem value="newest">Newest First</SelectItem>
                 </SelectContent>
@@ -228,7 +337,7 @@ export default function Products() {
                 </Card>
               ))}
             </div>
-          ) : sortedProducts.length > 0 ? (
+          ) : products.length > 0 ? (
             <div 
               className={
                 viewMode === "grid" 
@@ -236,7 +345,7 @@ export default function Products() {
                   : "space-y-4"
               }
             >
-              {sortedProducts.map((product) => {
+              {products.map((product) => {
                 const category = categories.find(c => c.id === product.categoryId);
                 return (
                   <ProductCard 
@@ -253,6 +362,31 @@ export default function Products() {
               <p className="text-muted-foreground">Try adjusting your filters or search terms.</p>
             </Card>
           )}
+
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <div className="flex justify-center items-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                data-testid="previous-page"
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground" data-testid="page-indicator">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => data?.nextPage && setPage(data.nextPage)}
+                disabled={!data?.nextPage}
+                data-testid="next-page"
+              >
+                Next
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
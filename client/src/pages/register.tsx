@@ -7,14 +7,20 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/lib/auth";
+import { useCart } from "@/lib/cart";
+import { useWishlist } from "@/lib/wishlist";
+import { useGuestOrders } from "@/lib/guest-orders";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { registerSchema, type RegisterData } from "@shared/schema";
 import { Link, useLocation } from "wouter";
 
 export default function Register() {
   const [, setLocation] = useLocation();
   const { login } = useAuth();
+  const { mergeGuestCart } = useCart();
+  const { mergeGuestWishlist } = useWishlist();
+  const { tokens: guestOrderTokens, forgetOrders } = useGuestOrders();
   const { toast } = useToast();
 
   const form = useForm<RegisterData>({
@@ -29,13 +35,24 @@ export default function Register() {
   });
 
   const registerMutation = useMutation({
-    mutationFn: (data: RegisterData) => apiRequest("POST", "/api/auth/register", data),
+    // Orders placed here as a guest with the same email join the new account
+    mutationFn: (data: RegisterData) => apiRequest("POST", "/api/auth/register", {
+      ...data,
+      orderTokens: Object.values(guestOrderTokens),
+    }),
     onSuccess: async (response) => {
       const result = await response.json();
       login(result.user, result.token);
+      mergeGuestCart();
+      mergeGuestWishlist();
+      forgetOrders(result.claimedOrderIds);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      const claimed = result.claimedOrderIds.length;
       toast({
         title: "Welcome to EComfy!",
-        description: "Your account has been created successfully.",
+        description: claimed > 0
+          ? `Your account has been created and ${claimed} earlier order${claimed === 1 ? " was" : "s were"} added to it.`
+          : "Your account has been created successfully.",
       });
       setLocation("/");
     },
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ProductCard } from "@/components/product-card";
+import type { SharedWishlist as SharedWishlistData } from "@shared/schema";
+
+// Read-only view of a wishlist its owner shared by link
+export default function SharedWishlist() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: wishlist, isLoading } = useQuery<SharedWishlistData | null>({
+    queryKey: ["/api/wishlists/shared", token],
+    queryFn: async () => {
+      const response = await fetch(`/api/wishlists/shared/${encodeURIComponent(token)}`);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch wishlist');
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-muted-foreground">Loading wishlist...</p>
+      </div>
+    );
+  }
+
+  if (!wishlist) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">Wishlist not found</h1>
+        <p className="text-muted-foreground mb-6">The link may have been turned off by its owner.</p>
+        <Link href="/products">
+          <Button variant="outline">Browse products</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold mb-8" data-testid="shared-wishlist-title">
+        {wishlist.ownerName}'s wishlist
+      </h1>
+
+      {wishlist.items.length === 0 ? (
+        <Card className="p-12 text-center">
+          <p className="text-muted-foreground">Nothing has been saved here yet.</p>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {wishlist.items.map((item) => (
+            <ProductCard key={item.product.id} product={item.product} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
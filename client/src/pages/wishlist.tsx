@@ -0,0 +1,203 @@
+import { useMutation, useQueries, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Copy, ShoppingCart, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/lib/auth";
+import { useCart } from "@/lib/cart";
+import { useWishlist } from "@/lib/wishlist";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Product, WishlistView } from "@shared/schema";
+
+export default function Wishlist() {
+  const { isAuthenticated, token } = useAuth();
+  const { productIds, remove } = useWishlist();
+  const { addItem } = useCart();
+  const { toast } = useToast();
+
+  const { data: wishlist, isLoading } = useQuery<WishlistView>({
+    queryKey: ["/api/wishlist"],
+    queryFn: async () => {
+      const response = await fetch('/api/wishlist', {
+        headers: {
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch wishlist');
+      }
+      return response.json();
+    },
+    enabled: isAuthenticated,
+  });
+
+  // A guest's list only exists in this browser, so its products are looked up one by one
+  const guestProducts = useQueries({
+    queries: (isAuthenticated ? [] : productIds).map((id) => ({
+      queryKey: ["/api/products", id],
+      queryFn: async () => {
+        const response = await fetch(`/api/products/${id}`);
+        if (response.status === 404) {
+          return null;
+        }
+        if (!response.ok) {
+          throw new Error('Failed to fetch product');
+        }
+        return response.json() as Promise<Product>;
+      },
+    })),
+  });
+
+  // Removals show straight away, before the server's list catches up
+  const products: Product[] = isAuthenticated
+    ? (wishlist?.items ?? []).map(item => item.product).filter(product => productIds.includes(product.id))
+    : guestProducts.flatMap(query => (query.data ? [query.data] : []));
+  const isLoadingProducts = isAuthenticated ? isLoading : guestProducts.some(query => query.isLoading);
+
+  const shareUrl = wishlist?.shareToken ? `${window.location.origin}/wishlists/${wishlist.shareToken}` : null;
+
+  const sharingMutation = useMutation({
+    mutationFn: async (shared: boolean) => {
+      const response = await apiRequest("PUT", "/api/wishlist/sharing", { shared });
+      return response.json() as Promise<WishlistView>;
+    },
+    onSuccess: (view) => {
+      queryClient.setQueryData(["/api/wishlist"], view);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating sharing",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMoveToCart = (product: Product) => {
+    addItem({
+      productId: product.id,
+      name: product.name,
+      price: parseFloat(product.price),
+      image: product.image,
+    });
+    remove(product.id);
+    toast({
+      title: "Moved to cart",
+      description: `${product.name} has been added to your cart.`,
+    });
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    toast({
+      title: "Link copied",
+      description: "Anyone with the link can see your wishlist.",
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold mb-8" data-testid="wishlist-title">My Wishlist</h1>
+
+      {isAuthenticated ? (
+        <Card className="p-4 mb-6 space-y-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="wishlist-shared"
+              checked={!!shareUrl}
+              onCheckedChange={(checked) => sharingMutation.mutate(checked)}
+              disabled={sharingMutation.isPending}
+              data-testid="wishlist-share-switch"
+            />
+            <Label htmlFor="wishlist-shared">Share my wishlist with a link</Label>
+          </div>
+          {shareUrl && (
+            <div className="flex gap-2">
+              <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} data-testid="wishlist-share-url" />
+              <Button variant="outline" onClick={handleCopyLink} data-testid="wishlist-copy-link">
+                <Copy className="mr-2" size={16} />
+                Copy
+              </Button>
+            </div>
+          )}
+        </Card>
+      ) : (
+        <Card className="p-4 mb-6 text-sm text-muted-foreground" data-testid="wishlist-guest-notice">
+          Your wishlist is saved in this browser.{" "}
+          <Link href="/login" className="font-medium text-foreground underline">Log in</Link>
+          {" "}to keep it on every device and share it.
+        </Card>
+      )}
+
+      {isLoadingProducts ? (
+        <p className="text-muted-foreground">Loading wishlist...</p>
+      ) : products.length === 0 ? (
+        <Card className="p-12 text-center">
+          <p className="text-muted-foreground mb-4">Tap the heart on a product to save it for later.</p>
+          <Link href="/products">
+            <Button data-testid="browse-products">Browse products</Button>
+          </Link>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {products.map((product) => {
+            const unavailable = !product.isActive || product.stock <= 0;
+            return (
+              <Card key={product.id} className="p-4 flex items-center space-x-4" data-testid={`wishlist-item-${product.id}`}>
+                <Link href={`/products/${product.id}`}>
+                  <img src={product.image} alt={product.name} className="w-20 h-20 object-cover rounded-lg cursor-pointer" />
+                </Link>
+                <div className="flex-1">
+                  <Link href={`/products/${product.id}`} className="font-semibold hover:underline">
+                    {product.name}
+                  </Link>
+                  <p className="text-primary font-bold">${parseFloat(product.price).toFixed(2)}</p>
+                  {unavailable && (
+                    <p className="text-sm text-destructive" data-testid={`wishlist-item-unavailable-${product.id}`}>
+                      {product.isActive ? "Out of stock" : "No longer available"}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {product.options.length > 0 ? (
+                    // The variant is picked on the detail page, as from a product card
+                    <Link href={`/products/${product.id}`}>
+                      <Button size="sm" variant="outline" disabled={unavailable} data-testid={`wishlist-choose-options-${product.id}`}>
+                        Choose options
+                      </Button>
+                    </Link>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => handleMoveToCart(product)}
+                      disabled={unavailable}
+                      data-testid={`wishlist-move-to-cart-${product.id}`}
+                    >
+                      <ShoppingCart className="mr-1" size={16} />
+                      Move to cart
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(product.id)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label="Remove from wishlist"
+                    data-testid={`wishlist-remove-${product.id}`}
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import dotenv from "dotenv";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { users, categories, products } from "../shared/schema";
+import { users, categories, products, taxRules, shippingZones, shippingMethods } from "../shared/schema";
 import { eq } from "drizzle-orm";
 import bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
@@ -48,24 +48,28 @@ async function seed() {
       {
         id: randomUUID(),
         name: "Electronics",
+        slug: "electronics",
         description: "Tech gadgets and devices",
         icon: "fas fa-laptop",
       },
       {
         id: randomUUID(),
         name: "Fashion",
+        slug: "fashion",
         description: "Clothing and accessories",
         icon: "fas fa-tshirt",
       },
       {
         id: randomUUID(),
         name: "Home & Garden",
+        slug: "home-and-garden",
         description: "Home improvement and decor",
         icon: "fas fa-home",
       },
       {
         id: randomUUID(),
         name: "Sports",
+        slug: "sports",
         description: "Sports and fitness equipment",
         icon: "fas fa-dumbbell",
       },
@@ -208,6 +212,56 @@ async function seed() {
     console.log("ℹ️ Products already exist, skipping...");
   }
 
+  // Check if tax rules already exist
+  const existingTaxRules = await db.select().from(taxRules).limit(1);
+
+  if (existingTaxRules.length === 0) {
+    // The store-wide rate that used to be hardcoded in the cart
+    await db.insert(taxRules).values({
+      name: "US sales tax",
+      country: "US",
+      rate: "8.000",
+    });
+    console.log("✅ Default tax rule created");
+  } else {
+    console.log("ℹ️ Tax rules already exist, skipping...");
+  }
+
+  // Check if shipping zones already exist
+  const existingZones = await db.select().from(shippingZones).limit(1);
+
+  if (existingZones.length === 0) {
+    const [domestic] = await db.insert(shippingZones).values({
+      name: "United States",
+      countries: ["US"],
+    }).returning();
+    // Standard keeps the rate that used to be hardcoded in the cart
+    await db.insert(shippingMethods).values([
+      {
+        zoneId: domestic.id,
+        name: "Standard",
+        rateType: "free_over",
+        baseRate: "15.00",
+        freeThreshold: "50.00",
+        minDays: 3,
+        maxDays: 5,
+        sortOrder: 0,
+      },
+      {
+        zoneId: domestic.id,
+        name: "Express",
+        rateType: "flat",
+        baseRate: "25.00",
+        minDays: 1,
+        maxDays: 2,
+        sortOrder: 1,
+      },
+    ]);
+    console.log("✅ Default shipping zone created");
+  } else {
+    console.log("ℹ️ Shipping zones already exist, skipping...");
+  }
+
   console.log("🎉 Database seeding check completed!");
   console.log("\n📋 Admin Account (if created):");
   console.log("Username: admin");
@@ -0,0 +1,67 @@
+import dotenv from "dotenv";
+import postgres from "postgres";
+import { slugify } from "../shared/schema";
+
+dotenv.config();
+
+// categories.slug is required and unique, which `npm run db:push` can't add
+// to a table that already has rows. Run this first on a database from before
+// category URLs: it adds the column, gives every category a slug made from
+// its name, then adds the constraints. Safe to run again.
+async function setupCategorySlugs() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is required");
+  }
+
+  const client = postgres(process.env.DATABASE_URL);
+
+  console.log("🔗 Setting up category slugs...");
+
+  try {
+    const [{ exists }] = await client`SELECT to_regclass('categories') IS NOT NULL AS exists`;
+    if (!exists) {
+      console.log("ℹ️ No categories table yet; npm run db:push creates it with slugs");
+      return;
+    }
+
+    await client.begin(async (tx) => {
+      await tx.unsafe(`ALTER TABLE categories ADD COLUMN IF NOT EXISTS slug text`);
+
+      // Oldest categories keep the plain slug; later ones with the same name
+      // stem get -2, -3, ...
+      const rows = await tx<{ id: string; name: string; slug: string | null }[]>`
+        SELECT id, name, slug FROM categories ORDER BY created_at, id
+      `;
+      const taken = new Set(rows.flatMap((row) => (row.slug ? [row.slug] : [])));
+      for (const row of rows) {
+        if (row.slug) continue;
+        const base = slugify(row.name) || row.id.slice(0, 8);
+        let slug = base;
+        for (let n = 2; taken.has(slug); n++) {
+          slug = `${base}-${n}`;
+        }
+        taken.add(slug);
+        await tx`UPDATE categories SET slug = ${slug} WHERE id = ${row.id}`;
+      }
+
+      await tx.unsafe(`ALTER TABLE categories ALTER COLUMN slug SET NOT NULL`);
+      // Named as drizzle-kit names it, so db:push sees nothing left to do
+      await tx.unsafe(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'categories_slug_unique') THEN
+            ALTER TABLE categories ADD CONSTRAINT categories_slug_unique UNIQUE (slug);
+          END IF;
+        END
+        $$
+      `);
+    });
+    console.log("✅ Category slugs are ready");
+  } catch (error) {
+    console.error("❌ Error setting up category slugs:", error);
+  } finally {
+    await client.end();
+  }
+}
+
+setupCategorySlugs().catch(console.error);
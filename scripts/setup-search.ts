@@ -0,0 +1,78 @@
+import dotenv from "dotenv";
+import postgres from "postgres";
+
+dotenv.config();
+
+// drizzle-kit push can't create extensions or triggers, so the product
+// search plumbing lives here. Every statement is idempotent. The schema's
+// trigram index needs pg_trgm before `npm run db:push` can create it, so on
+// a fresh database run this, then db:push, then this again.
+const statements = [
+  `ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector`,
+
+  `CREATE OR REPLACE FUNCTION products_search_vector_refresh() RETURNS trigger AS $$
+   BEGIN
+     NEW.search_vector :=
+       setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+       setweight(to_tsvector('english', coalesce((SELECT name FROM categories WHERE id = NEW.category_id), '')), 'B') ||
+       setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+     RETURN NEW;
+   END
+   $$ LANGUAGE plpgsql`,
+
+  `DROP TRIGGER IF EXISTS products_search_vector_trigger ON products`,
+  `CREATE TRIGGER products_search_vector_trigger
+   BEFORE INSERT OR UPDATE OF name, description, category_id ON products
+   FOR EACH ROW EXECUTE FUNCTION products_search_vector_refresh()`,
+
+  // Renaming a category changes the documents of every product in it
+  `CREATE OR REPLACE FUNCTION categories_search_vector_refresh() RETURNS trigger AS $$
+   BEGIN
+     UPDATE products SET name = name WHERE category_id = NEW.id;
+     RETURN NEW;
+   END
+   $$ LANGUAGE plpgsql`,
+
+  `DROP TRIGGER IF EXISTS categories_search_vector_trigger ON categories`,
+  `CREATE TRIGGER categories_search_vector_trigger
+   AFTER UPDATE OF name ON categories
+   FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name)
+   EXECUTE FUNCTION categories_search_vector_refresh()`,
+
+  `CREATE INDEX IF NOT EXISTS products_search_vector_idx ON products USING gin (search_vector)`,
+  `CREATE INDEX IF NOT EXISTS products_name_trgm_idx ON products USING gin (name gin_trgm_ops)`,
+
+  // Backfill rows written before the trigger existed
+  `UPDATE products SET name = name WHERE search_vector IS NULL`,
+];
+
+async function setupSearch() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is required");
+  }
+
+  const client = postgres(process.env.DATABASE_URL);
+
+  console.log("🔎 Setting up product search...");
+
+  try {
+    await client.unsafe(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+
+    const [{ exists }] = await client`SELECT to_regclass('products') IS NOT NULL AS exists`;
+    if (!exists) {
+      console.log("ℹ️ pg_trgm installed; run npm run db:push, then this script again");
+      return;
+    }
+
+    for (const statement of statements) {
+      await client.unsafe(statement);
+    }
+    console.log("✅ Product search is ready");
+  } catch (error) {
+    console.error("❌ Error setting up product search:", error);
+  } finally {
+    await client.end();
+  }
+}
+
+setupSearch().catch(console.error);
@@ -0,0 +1,74 @@
+import type { CartIssue, CartValidationLine } from "@shared/schema";
+import type { Catalog } from "./pricing";
+
+// Carts store what the customer picked, not prices: every read prices the
+// lines from the live catalog, the same way checkout will.
+
+// Raised when a line can't go in the cart, e.g. the product is gone
+export class CartError extends Error {
+  constructor(message: string, public productId?: string) {
+    super(message);
+    this.name = "CartError";
+  }
+}
+
+// Cart lines are addressed by the same key the storefront uses
+export const cartLineKey = (productId: string, variantId?: string | null) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+export function parseCartLineKey(key: string): { productId: string; variantId: string | null } {
+  const [productId, variantId] = key.split(":");
+  return { productId, variantId: variantId || null };
+}
+
+// When a guest cart merges into an account cart holding the same item, the
+// quantities add up as far as stock allows, but never drop below what either
+// cart already asked for
+export function mergedQuantity(accountQuantity: number, guestQuantity: number, stock: number): number {
+  return Math.max(Math.min(accountQuantity + guestQuantity, stock), accountQuantity, guestQuantity);
+}
+
+const toCents = (amount: string | number) => Math.round(Number(amount) * 100);
+
+// Compares each line with the catalog as it is now. An unavailable line gets
+// only that issue; otherwise a line may have a new price, too little stock, or both.
+export function findCartIssues(lines: CartValidationLine[], catalog: Catalog): CartIssue[] {
+  return lines.flatMap((line): CartIssue[] => {
+    const base = {
+      id: cartLineKey(line.productId, line.variantId),
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+    };
+
+    const product = catalog.products.find((p) => p.id === line.productId);
+    const variant = line.variantId ? catalog.variants.find((v) => v.id === line.variantId) : undefined;
+    if (!product || !product.isActive || product.deletedAt) {
+      return [{ ...base, type: "unavailable", message: "This item is no longer available" }];
+    }
+    if (line.variantId ? variant?.productId !== product.id : product.options.length > 0) {
+      return [{ ...base, type: "unavailable", message: "This option is no longer available" }];
+    }
+
+    const issues: CartIssue[] = [];
+    const price = variant?.price ?? product.price;
+    if (toCents(price) !== toCents(line.price)) {
+      issues.push({
+        ...base,
+        type: "price_changed",
+        message: `The price changed from $${Number(line.price).toFixed(2)} to $${Number(price).toFixed(2)}`,
+        price: Number(price),
+      });
+    }
+
+    const available = Math.max(variant ? variant.stock : product.stock, 0);
+    if (line.quantity > available) {
+      issues.push({
+        ...base,
+        type: "insufficient_stock",
+        message: available === 0 ? "Out of stock" : `Only ${available} left in stock`,
+        available,
+      });
+    }
+    return issues;
+  });
+}
@@ -0,0 +1,24 @@
+import { descendantCategoryIds, type Category } from "@shared/schema";
+
+// Raised when deleting a category would leave products pointing at the trash.
+// The caller can retry with another category to move them to.
+export class CategoryInUseError extends Error {
+  constructor(public productCount: number) {
+    super(productCount === 1
+      ? "1 product still uses this category; move it to another category first"
+      : `${productCount} products still use this category; move them to another category first`);
+    this.name = "CategoryInUseError";
+  }
+}
+
+// A parent must be a live category outside the category's own subtree, or
+// the tree would loop
+export function getCategoryParentError(categories: Category[], id: string | null, parentId: string): string | undefined {
+  if (!categories.some((category) => category.id === parentId)) {
+    return "Parent category not found";
+  }
+  if (id && descendantCategoryIds(categories, id).includes(parentId)) {
+    return "A category can't be placed inside itself or one of its subcategories";
+  }
+  return undefined;
+}
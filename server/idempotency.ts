@@ -0,0 +1,15 @@
+import { createHash } from "crypto";
+
+// Requests that must not run twice, like placing an order, may carry an
+// Idempotency-Key header. The first response is stored under the key and
+// replayed when the request is retried, e.g. after a double click or a lost
+// connection. Reusing a key for a different request is refused.
+
+// Keys are forgotten after a day; a retry after that runs as a new request
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export function requestFingerprint(method: string, path: string, body: unknown): string {
+  return createHash("sha256").update(JSON.stringify([method, path, body ?? null])).digest("hex");
+}
@@ -3,8 +3,19 @@ import { registerRoutes, registerUploadRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import path from "path";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Payment webhooks are verified against the exact bytes that were signed
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Serve uploaded files statically
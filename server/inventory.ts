@@ -0,0 +1,46 @@
+import type { OrderQuoteLine, Product, ProductVariant, StockShortage } from "@shared/schema";
+
+// Raised inside the checkout transaction so that nothing is written when any
+// line cannot be fulfilled
+export class InsufficientStockError extends Error {
+  constructor(public shortages: StockShortage[]) {
+    super(shortages.length === 1
+      ? `Only ${shortages[0].available} of ${shortages[0].name} left in stock`
+      : "Some items in your cart are no longer available in the requested quantity");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Units requested per product or variant, merging lines that repeat one
+export function stockDemand(lines: OrderQuoteLine[]): (OrderQuoteLine & { requested: number })[] {
+  const demand = new Map<string, OrderQuoteLine & { requested: number }>();
+  for (const line of lines) {
+    const key = line.variantId ?? line.productId;
+    const entry = demand.get(key);
+    if (entry) {
+      entry.requested += line.quantity;
+    } else {
+      demand.set(key, { ...line, requested: line.quantity });
+    }
+  }
+  return Array.from(demand.values());
+}
+
+export function findStockShortages(
+  lines: OrderQuoteLine[],
+  catalog: { products: Product[]; variants: ProductVariant[] },
+): StockShortage[] {
+  return stockDemand(lines).flatMap((line) => {
+    const available = line.variantId
+      ? catalog.variants.find((v) => v.id === line.variantId)?.stock ?? 0
+      : catalog.products.find((p) => p.id === line.productId)?.stock ?? 0;
+    if (line.requested <= available) return [];
+    return [{
+      productId: line.productId,
+      variantId: line.variantId,
+      name: line.variantLabel ? `${line.name} (${line.variantLabel})` : line.name,
+      requested: line.requested,
+      available: Math.max(available, 0),
+    }];
+  });
+}
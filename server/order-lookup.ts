@@ -0,0 +1,19 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// Guests have no account to prove an order is theirs, so checkout hands them
+// a random lookup token instead. Only its hash is stored: the token itself is
+// shown once, in the checkout response, and kept by the guest's browser.
+
+export function createLookupToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, hash: hashLookupToken(token) };
+}
+
+export function hashLookupToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function matchesLookupToken(hash: string | null, token: string | undefined): boolean {
+  if (!hash || !token) return false;
+  return timingSafeEqual(Buffer.from(hashLookupToken(token)), Buffer.from(hash));
+}
@@ -0,0 +1,19 @@
+import { orderStatusTransitions, orderStatuses, type OrderStatus } from "@shared/schema";
+
+export class OrderStatusError extends Error {
+  constructor(public from: string, public to: OrderStatus) {
+    super(`An order that is ${from} cannot be marked ${to}`);
+    this.name = "OrderStatusError";
+  }
+}
+
+// Orders written before the state machine may hold statuses it doesn't know;
+// those can't move anywhere
+export function assertOrderTransition(from: string, to: OrderStatus) {
+  const allowed = (orderStatuses as readonly string[]).includes(from)
+    ? orderStatusTransitions[from as OrderStatus]
+    : [];
+  if (!allowed.includes(to)) {
+    throw new OrderStatusError(from, to);
+  }
+}
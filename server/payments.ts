@@ -0,0 +1,173 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+// Payments go through a provider: the checkout creates an intent for the
+// order total, which either succeeds straight away, is declined, or needs the
+// customer to confirm with their bank. In the last case the provider reports
+// the outcome later through a signed webhook. Amounts are in cents.
+
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+export type IntentStatus = "succeeded" | "requires_action" | "failed" | "cancelled";
+
+export interface PaymentIntent {
+  providerRef: string;
+  status: IntentStatus;
+  failureMessage?: string;
+}
+
+export interface RefundResult {
+  providerRef: string;
+  status: "succeeded" | "failed";
+  failureMessage?: string;
+}
+
+export interface PaymentEvent {
+  id: string; // the provider's event id, used to ignore redelivered webhooks
+  type: "payment.succeeded" | "payment.failed";
+  providerRef: string;
+  failureMessage?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  // Authorizes the amount. Captures immediately unless the customer still
+  // has to confirm; in that case capture happens when the webhook arrives.
+  createIntent(input: { amount: number; currency: string; orderId: string; paymentMethod: string }): Promise<PaymentIntent>;
+  capture(providerRef: string, amount: number): Promise<PaymentIntent>;
+  // Releases an authorization that will never be captured
+  cancel(providerRef: string): Promise<PaymentIntent>;
+  refund(providerRef: string, amount: number): Promise<RefundResult>;
+  // Throws WebhookVerificationError unless the payload was signed by the provider
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
+
+// Test payment methods understood by the mock provider
+export const mockPaymentMethods = {
+  success: "pm_mock_success",
+  decline: "pm_mock_decline",
+  authenticate: "pm_mock_3ds",
+} as const;
+
+type MockIntent = { amount: number; captured: number; refunded: number; status: IntentStatus };
+
+// A provider that never leaves the process, for development and tests. The
+// payment method decides the outcome; 3DS confirmations are simulated with
+// webhooks signed using the same secret a real provider would share.
+export class MockPaymentProvider implements PaymentProvider {
+  name = "mock";
+  private intents = new Map<string, MockIntent>();
+
+  constructor(private webhookSecret: string) {}
+
+  async createIntent(input: { amount: number; currency: string; orderId: string; paymentMethod: string }): Promise<PaymentIntent> {
+    const providerRef = `mock_pi_${randomUUID()}`;
+    switch (input.paymentMethod) {
+      case mockPaymentMethods.success:
+        this.intents.set(providerRef, { amount: input.amount, captured: 0, refunded: 0, status: "succeeded" });
+        return this.capture(providerRef, input.amount);
+      case mockPaymentMethods.authenticate:
+        this.intents.set(providerRef, { amount: input.amount, captured: 0, refunded: 0, status: "requires_action" });
+        return { providerRef, status: "requires_action" };
+      case mockPaymentMethods.decline:
+        this.intents.set(providerRef, { amount: input.amount, captured: 0, refunded: 0, status: "failed" });
+        return { providerRef, status: "failed", failureMessage: "Your card was declined" };
+      default:
+        throw new PaymentError("Unsupported payment method");
+    }
+  }
+
+  async capture(providerRef: string, amount: number): Promise<PaymentIntent> {
+    const intent = this.intents.get(providerRef);
+    if (!intent || intent.status !== "succeeded" || amount > intent.amount) {
+      throw new PaymentError("This payment cannot be captured");
+    }
+    intent.captured = amount;
+    return { providerRef, status: "succeeded" };
+  }
+
+  async cancel(providerRef: string): Promise<PaymentIntent> {
+    const intent = this.intents.get(providerRef);
+    if (!intent || intent.captured > 0) {
+      throw new PaymentError("This payment cannot be cancelled");
+    }
+    intent.status = "cancelled";
+    return { providerRef, status: "cancelled" };
+  }
+
+  async refund(providerRef: string, amount: number): Promise<RefundResult> {
+    const intent = this.intents.get(providerRef);
+    // Intents are kept in memory, so payments from before a restart can't be refunded here
+    if (!intent || amount > intent.captured - intent.refunded) {
+      return { providerRef: `mock_re_${randomUUID()}`, status: "failed", failureMessage: "Refund exceeds the captured amount" };
+    }
+    intent.refunded += amount;
+    return { providerRef: `mock_re_${randomUUID()}`, status: "succeeded" };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const signature = headers["x-mock-signature"];
+    const expected = Buffer.from(this.sign(rawBody));
+    if (typeof signature !== "string" || signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), expected)) {
+      throw new WebhookVerificationError();
+    }
+    return JSON.parse(rawBody.toString("utf8")) as PaymentEvent;
+  }
+
+  // Stands in for the bank's confirmation page: settles the intent and
+  // returns the webhook the provider would send for it
+  simulateAuthentication(providerRef: string, approve: boolean): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const intent = this.intents.get(providerRef);
+    if (!intent || intent.status !== "requires_action") {
+      throw new PaymentError("This payment is not awaiting confirmation");
+    }
+    intent.status = approve ? "succeeded" : "failed";
+    const event: PaymentEvent = approve
+      ? { id: `mock_evt_${randomUUID()}`, type: "payment.succeeded", providerRef }
+      : { id: `mock_evt_${randomUUID()}`, type: "payment.failed", providerRef, failureMessage: "Authentication failed" };
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return { rawBody, headers: { "x-mock-signature": this.sign(rawBody) } };
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac("sha256", this.webhookSecret).update(rawBody).digest("hex");
+  }
+}
+
+// The mock provider takes test cards anyone can use, so a production server
+// only offers it when ALLOW_MOCK_PAYMENTS=true says so on purpose
+export const mockPaymentsAllowed = process.env.NODE_ENV !== "production" || process.env.ALLOW_MOCK_PAYMENTS === "true";
+
+// Without a configured secret the mock signs with a random one, known only to
+// this process and so only to its own simulated confirmations
+const providers: Record<string, PaymentProvider> = mockPaymentsAllowed
+  ? { mock: new MockPaymentProvider(process.env.MOCK_PAYMENT_WEBHOOK_SECRET || randomBytes(32).toString("hex")) }
+  : {};
+
+export function getPaymentProvider(name = process.env.PAYMENT_PROVIDER || "mock"): PaymentProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new PaymentError(name === "mock"
+      ? "The mock payment provider is disabled in production; set PAYMENT_PROVIDER"
+      : `Unknown payment provider "${name}"`);
+  }
+  return provider;
+}
+
+// Orders still unpaid after this long, e.g. left at the bank's confirmation
+// page, are cancelled and their stock goes back on sale
+export const UNPAID_ORDER_TTL_MS = 60 * 60 * 1000;
+
+export const STORE_CURRENCY = (process.env.STORE_CURRENCY || "usd").toLowerCase();
@@ -0,0 +1,157 @@
+import type { Category, Destination, OrderLine, OrderQuote, OrderQuoteLine, Product, ProductVariant, ShippingMethod, TaxRule } from "@shared/schema";
+import { CouponError, assertCouponUsable, isCouponEligible, type CouponUsage } from "./promotions";
+import { findTaxRule, taxClassFor, taxOn } from "./tax";
+import { ShippingError, shippingRate } from "./shipping";
+
+// Orders are always priced here from catalog data; nothing the client sends
+// about prices is trusted. Amounts are summed in cents to avoid float drift.
+
+export interface Catalog {
+  products: Product[];
+  variants: ProductVariant[];
+  categories: Category[];
+}
+
+export interface PricingContext {
+  promotion?: CouponUsage;
+  taxRules: TaxRule[];
+  destination: Destination;
+  taxExempt: boolean;
+  // Methods of the destination's shipping zone; the cheapest is used when none is chosen
+  shippingMethods: ShippingMethod[];
+  shippingMethodId?: string | null;
+}
+
+// Raised when a requested line cannot be priced, e.g. the product is gone
+export class OrderPricingError extends Error {
+  constructor(message: string, public productId?: string) {
+    super(message);
+    this.name = "OrderPricingError";
+  }
+}
+
+const toCents = (amount: string | number) => Math.round(Number(amount) * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// Splits `total` across `weights` proportionally without losing a cent
+function allocate(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum === 0) return weights.map(() => 0);
+  const shares = weights.map((w) => Math.floor(total * w / sum));
+  let remainder = total - shares.reduce((a, b) => a + b, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % shares.length) {
+    if (weights[i] > 0) {
+      shares[i]++;
+      remainder--;
+    }
+  }
+  return shares;
+}
+
+export function priceOrder(lines: OrderLine[], catalog: Catalog, context: PricingContext): OrderQuote {
+  const priced = lines.map((line) => {
+    const product = catalog.products.find((p) => p.id === line.productId);
+    if (!product || !product.isActive || product.deletedAt) {
+      throw new OrderPricingError(
+        product ? `${product.name} is no longer available` : "One of the products in your order no longer exists",
+        line.productId,
+      );
+    }
+
+    const variant = line.variantId ? catalog.variants.find((v) => v.id === line.variantId) : undefined;
+    if (line.variantId && (!variant || variant.productId !== product.id)) {
+      throw new OrderPricingError(`The selected option for ${product.name} is no longer available`, product.id);
+    }
+    if (!variant && product.options.length > 0) {
+      throw new OrderPricingError(`Please choose options for ${product.name}`, product.id);
+    }
+
+    let rule = findTaxRule(context.taxRules, taxClassFor(product, catalog.categories), context.destination);
+    let unitCents = toCents(variant?.price ?? product.price);
+    if (context.taxExempt) {
+      // Exempt customers pay the net price where catalog prices include tax
+      if (rule?.priceIncludesTax) {
+        unitCents = Math.round(unitCents / (1 + Number(rule.rate) / 100));
+      }
+      rule = undefined;
+    }
+
+    return { product, variant, rule, unitCents, lineCents: unitCents * line.quantity, quantity: line.quantity };
+  });
+
+  const subtotalCents = priced.reduce((sum, line) => sum + line.lineCents, 0);
+  let freeShipping = false;
+
+  let discountCents = 0;
+  let lineDiscounts = priced.map(() => 0);
+  if (context.promotion) {
+    const { coupon } = context.promotion;
+    assertCouponUsable(context.promotion, fromCents(subtotalCents));
+
+    const eligible = priced.map((line) => (isCouponEligible(coupon, line.product) ? line.lineCents : 0));
+    const eligibleCents = eligible.reduce((a, b) => a + b, 0);
+    if (eligibleCents === 0) {
+      throw new CouponError("This promo code doesn't apply to any items in your cart");
+    }
+
+    if (coupon.type === "percentage") {
+      discountCents = Math.round(eligibleCents * Number(coupon.value) / 100);
+    } else if (coupon.type === "fixed") {
+      discountCents = Math.min(toCents(coupon.value), eligibleCents);
+    } else {
+      freeShipping = true;
+    }
+    // Spread over the lines it applies to so each line is taxed on what is paid
+    lineDiscounts = allocate(discountCents, eligible);
+  }
+
+  const weightKg = priced.reduce((sum, line) => sum + Number(line.product.weight ?? 0) * line.quantity, 0);
+  const rates = context.shippingMethods.map((method) => ({
+    method,
+    cents: freeShipping ? 0 : shippingRate(method, subtotalCents - discountCents, weightKg),
+  }));
+  if (rates.length === 0) {
+    throw new ShippingError("We don't ship to this address yet");
+  }
+  const shipping = context.shippingMethodId
+    ? rates.find((rate) => rate.method.id === context.shippingMethodId)
+    : rates.reduce((cheapest, rate) => (rate.cents < cheapest.cents ? rate : cheapest));
+  if (!shipping) {
+    throw new ShippingError("The selected shipping method isn't available for this address");
+  }
+  const shippingCents = shipping.cents;
+
+  let taxCents = 0;
+  let includedTaxCents = 0;
+  const quoteLines: OrderQuoteLine[] = priced.map(({ product, variant, rule, unitCents, lineCents, quantity }, index) => {
+    const lineTax = taxOn(lineCents - lineDiscounts[index], rule);
+    taxCents += lineTax;
+    if (rule?.priceIncludesTax) includedTaxCents += lineTax;
+
+    return {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      name: product.name,
+      variantLabel: variant ? product.options.map((o) => variant.options[o.name]).join(" / ") : null,
+      image: variant?.image || product.image,
+      unitPrice: fromCents(unitCents),
+      quantity,
+      lineTotal: fromCents(lineCents),
+      discount: fromCents(lineDiscounts[index]),
+      taxRate: rule ? Number(rule.rate) : 0,
+      tax: fromCents(lineTax),
+    };
+  });
+
+  return {
+    lines: quoteLines,
+    subtotal: fromCents(subtotalCents),
+    discount: fromCents(discountCents),
+    couponCode: context.promotion?.coupon.code ?? null,
+    shippingMethod: { id: shipping.method.id, name: shipping.method.name },
+    shipping: fromCents(shippingCents),
+    tax: fromCents(taxCents),
+    includedTax: fromCents(includedTaxCents),
+    total: fromCents(subtotalCents - discountCents + shippingCents + taxCents - includedTaxCents),
+  };
+}
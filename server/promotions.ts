@@ -0,0 +1,44 @@
+import type { Coupon, Product } from "@shared/schema";
+
+// Coupon rules. The discount itself is worked out in pricing.ts; this module
+// only decides whether a code may be used and which products it covers.
+
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+export interface CouponUsage {
+  coupon: Coupon;
+  // Orders this customer has already placed with the coupon; 0 for guests
+  redemptions: number;
+}
+
+export function assertCouponUsable({ coupon, redemptions }: CouponUsage, subtotal: number, now = new Date()): void {
+  if (!coupon.isActive) {
+    throw new CouponError("This promo code is not valid");
+  }
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new CouponError("This promo code is not active yet");
+  }
+  if (coupon.endsAt && coupon.endsAt <= now) {
+    throw new CouponError("This promo code has expired");
+  }
+  if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+    throw new CouponError("This promo code has reached its usage limit");
+  }
+  if (coupon.perCustomerLimit !== null && redemptions >= coupon.perCustomerLimit) {
+    throw new CouponError("You have already used this promo code");
+  }
+  if (coupon.minSubtotal !== null && subtotal < Number(coupon.minSubtotal)) {
+    throw new CouponError(`Spend at least $${Number(coupon.minSubtotal).toFixed(2)} to use this promo code`);
+  }
+}
+
+export function isCouponEligible(coupon: Coupon, product: Product): boolean {
+  if (coupon.productIds.length === 0 && coupon.categoryIds.length === 0) return true;
+  return coupon.productIds.includes(product.id)
+    || (product.categoryId !== null && coupon.categoryIds.includes(product.categoryId));
+}
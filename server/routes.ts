@@ -1,6 +1,23 @@
 import type { Express, Request, Response, NextFunction } from "express";
-import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { createServer, type Server, type IncomingHttpHeaders } from "http";
+import { storage, type CartOwner } from "./storage";
+import { OrderPricingError } from "./pricing";
+import { InsufficientStockError } from "./inventory";
+import { CouponError } from "./promotions";
+import { ShippingError } from "./shipping";
+import { OrderStatusError } from "./order-status";
+import { CategoryInUseError, getCategoryParentError } from "./categories";
+import { CartError } from "./cart";
+import { createLookupToken, matchesLookupToken } from "./order-lookup";
+import { MAX_IDEMPOTENCY_KEY_LENGTH, requestFingerprint } from "./idempotency";
+import {
+  MockPaymentProvider,
+  PaymentError,
+  STORE_CURRENCY,
+  WebhookVerificationError,
+  getPaymentProvider,
+  type PaymentProvider
+} from "./payments";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import {
@@ -8,7 +25,38 @@ import {
   registerSchema,
   insertProductSchema,
   insertCategorySchema,
-  type User
+  productQuerySchema,
+  insertReviewSchema,
+  reviewStatusSchema,
+  reviewStatuses,
+  orderRequestSchema,
+  checkoutRequestSchema,
+  orderLookupTokensSchema,
+  refundRequestSchema,
+  orderStatusUpdateSchema,
+  orderStatusTransitions,
+  insertAddressSchema,
+  orderLineSchema,
+  cartQuantitySchema,
+  cartReplaceSchema,
+  cartValidationSchema,
+  wishlistItemSchema,
+  wishlistMergeSchema,
+  wishlistSharingSchema,
+  insertCouponSchema,
+  couponCodeSchema,
+  destinationSchema,
+  insertTaxClassSchema,
+  insertTaxRuleSchema,
+  insertShippingZoneSchema,
+  insertShippingMethodSchema,
+  type User,
+  type Order,
+  type IdempotencyKey,
+  type OrderStatus,
+  type Payment,
+  type ProductOption,
+  type InsertProductVariant
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
@@ -48,6 +96,85 @@ const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunc
   }
 };
 
+// Like authenticateToken, but lets anonymous requests through without a user
+const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    req.user = await storage.getUser(decoded.userId);
+  } catch (error) {
+    // An expired token is treated the same as no token
+  }
+  next();
+};
+
+// Replays the stored response when a request is retried with the same
+// Idempotency-Key. Runs after the auth middleware, as keys are per customer.
+// Guests are told apart by their cart token, or failing that by the request
+// itself, so one guest can never replay another's response.
+const idempotent = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const key = req.get("idempotency-key");
+  if (!key) {
+    return next();
+  }
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return res.status(400).json({ message: "Idempotency-Key is too long" });
+  }
+
+  try {
+    const fingerprint = requestFingerprint(req.method, req.path, req.body);
+    const cartToken = req.get("x-cart-token");
+    const scope = req.user ? `user:${req.user.id}` : cartToken ? `cart:${cartToken}` : `guest:${fingerprint}`;
+    const reservation = await storage.reserveIdempotencyKey(scope, key, fingerprint);
+    let record: IdempotencyKey | undefined = reservation.record;
+
+    if (!reservation.created) {
+      if (record.fingerprint !== fingerprint) {
+        return res.status(409).json({ message: "This Idempotency-Key was already used for a different request" });
+      }
+      // A double submit arrives while the first request is still running; wait for its outcome
+      for (let attempt = 0; record && record.responseStatus === null && attempt < 40; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        record = await storage.getIdempotencyKey(record.id);
+      }
+      if (!record || record.responseStatus === null) {
+        return res.status(409).json({ message: "The original request with this Idempotency-Key did not finish; please try again" });
+      }
+      // Lookup tokens are shown once and never stored, so a replayed guest
+      // order comes with a new one that replaces the first
+      const { lookupToken, ...body } = record.responseBody as Record<string, unknown>;
+      if (lookupToken === null) {
+        const lookup = createLookupToken();
+        const orderId = (body.orderId ?? body.id) as string;
+        if (await storage.setOrderLookupToken(orderId, lookup.hash)) {
+          body.lookupToken = lookup.token;
+        }
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(record.responseStatus).json(body);
+    }
+
+    // Server errors release the key so that the same request can be retried
+    const { id } = record;
+    const send = res.json.bind(res);
+    res.json = (body: any) => {
+      const saved = res.statusCode >= 500
+        ? storage.releaseIdempotencyKey(id)
+        : storage.saveIdempotentResponse(id, res.statusCode, body?.lookupToken ? { ...body, lookupToken: null } : body);
+      saved.catch(() => {}).finally(() => send(body));
+      return res;
+    };
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
 function ensureUploadsDir() {
   const uploadsDir = path.join(process.cwd(), "uploads");
   if (!fs.existsSync(uploadsDir)) {
@@ -79,6 +206,114 @@ export function registerUploadRoutes(app: Express) {
       res.json({ filePath });
     }
   );
+
+  // Upload several gallery images at once
+  app.post(
+    "/api/upload/multiple",
+    authenticateToken,
+    upload.array("images", 10),
+    (req: AuthRequest, res: Response) => {
+      const files = (req.files ?? []) as Express.Multer.File[];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const filePaths = files.map((file) => `/uploads/${file.filename}`);
+      res.json({ filePaths });
+    }
+  );
+}
+
+// Checks that every variant picks exactly one value per option axis and
+// that neither SKUs nor option combinations repeat
+function getVariantsError(options: ProductOption[], variants: InsertProductVariant[]): string | undefined {
+  if (variants.length > 0 && options.length === 0) {
+    return "Variants require at least one product option";
+  }
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  for (const variant of variants) {
+    if (skus.has(variant.sku)) {
+      return `Duplicate SKU: ${variant.sku}`;
+    }
+    skus.add(variant.sku);
+
+    const keys = Object.keys(variant.options);
+    if (keys.length !== options.length) {
+      return `Variant ${variant.sku} must set ${options.map(o => o.name).join(", ")}`;
+    }
+    for (const option of options) {
+      const value = variant.options[option.name];
+      if (!value || !option.values.includes(value)) {
+        return `Variant ${variant.sku} has an invalid ${option.name}`;
+      }
+    }
+
+    const combination = options.map(o => variant.options[o.name]).join(" / ");
+    if (combinations.has(combination)) {
+      return `More than one variant is ${combination}`;
+    }
+    combinations.add(combination);
+  }
+}
+
+// postgres unique_violation, e.g. a SKU already used by another product
+const isUniqueViolation = (error: unknown) =>
+  typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+
+const toCents = (amount: string | number) => Math.round(Number(amount) * 100);
+
+// Customers reach their own orders; guests reach theirs with the lookup token
+// from checkout, sent in X-Order-Token
+function ownsOrder(req: AuthRequest, order: Order): boolean {
+  if (req.user && order.userId === req.user.id) return true;
+  return matchesLookupToken(order.lookupTokenHash, req.get("x-order-token"));
+}
+
+// Charges the order total with the customer's payment method and records the
+// attempt. A successful payment moves the order to processing.
+async function chargeOrder(order: Order, paymentMethod: string): Promise<Payment> {
+  const provider = getPaymentProvider();
+  const intent = await provider.createIntent({
+    amount: toCents(order.totalPrice),
+    currency: STORE_CURRENCY,
+    orderId: order.id,
+    paymentMethod,
+  });
+  return storage.createPayment({
+    orderId: order.id,
+    provider: provider.name,
+    providerRef: intent.providerRef,
+    amount: order.totalPrice,
+    currency: STORE_CURRENCY,
+    status: intent.status,
+    failureMessage: intent.failureMessage,
+  });
+}
+
+// Settles a payment that was waiting for the customer to confirm it.
+// Redelivered events and events for unknown payments change nothing.
+async function handlePaymentWebhook(provider: PaymentProvider, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<Payment | undefined> {
+  const event = provider.verifyWebhook(rawBody, headers);
+  const payment = await storage.getPaymentByProviderRef(provider.name, event.providerRef);
+  const isNew = await storage.recordPaymentEvent(provider.name, event.id, event.type, payment?.id ?? null);
+  if (!payment || !isNew || payment.status !== "requires_action") {
+    return payment;
+  }
+
+  // An order cancelled while the customer was confirming, by an admin or for
+  // taking too long, gives its authorization back instead of being charged
+  if (event.type === "payment.succeeded") {
+    return storage.settleConfirmedPayment(payment.id, async (orderPending) => {
+      if (!orderPending) {
+        const cancelled = await provider.cancel(payment.providerRef);
+        return { ...cancelled, failureMessage: "The order was cancelled before the payment was confirmed" };
+      }
+      return provider.capture(payment.providerRef, toCents(payment.amount));
+    });
+  }
+  return storage.updatePaymentStatus(payment.id, "failed", event.failureMessage ?? "Payment failed");
 }
 
 // Middleware to check admin role
@@ -113,6 +348,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         role: data.role || "user",
       });
 
+      // Orders placed as a guest from this browser move into the new account
+      const claimedOrders = await storage.claimGuestOrders(user.id, user.email, data.orderTokens ?? []);
+
       const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: "7d" });
       
       res.json({ 
@@ -122,7 +360,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           email: user.email, 
           role: user.role 
         }, 
-        token 
+        token,
+        claimedOrderIds: claimedOrders.map((order) => order.id),
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -186,6 +425,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Address book routes
+  app.get("/api/addresses", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const addressList = await storage.getAddresses(req.user!.id);
+      res.json(addressList);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/addresses", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const addressData = insertAddressSchema.parse(req.body);
+      const address = await storage.createAddress(req.user!.id, addressData);
+      res.json(address);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, field: error.errors[0].path[0] });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/addresses/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const addressData = insertAddressSchema.parse(req.body);
+      const address = await storage.updateAddress(req.params.id, req.user!.id, addressData);
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      res.json(address);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, field: error.errors[0].path[0] });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/addresses/:id/default", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const address = await storage.setDefaultAddress(req.params.id, req.user!.id);
+      if (!address) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      res.json(address);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/addresses/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteAddress(req.params.id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      res.json({ message: "Address deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Category routes
   app.get("/api/categories", async (req, res) => {
     try {
@@ -196,15 +498,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/categories/slug/:slug", async (req, res) => {
+    try {
+      const category = await storage.getCategoryBySlug(req.params.slug);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.post("/api/categories", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
       const data = insertCategorySchema.parse(req.body);
+      if (data.parentId) {
+        const parentError = getCategoryParentError(await storage.getCategories(), null, data.parentId);
+        if (parentError) {
+          return res.status(400).json({ message: parentError, field: "parentId" });
+        }
+      }
       const category = await storage.createCategory(data);
       res.json(category);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+      // Trashed categories keep their name and slug until purged
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A category with this name or slug already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/categories/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const data = insertCategorySchema.partial().parse(req.body);
+      if (data.parentId) {
+        const parentError = getCategoryParentError(await storage.getCategories(), req.params.id, data.parentId);
+        if (parentError) {
+          return res.status(400).json({ message: parentError, field: "parentId" });
+        }
+      }
+      const category = await storage.updateCategory(req.params.id, data);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A category with this name or slug already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Products still in the category block deletion unless ?reassignTo names
+  // another live category to move them to
+  app.delete("/api/categories/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const reassignTo = typeof req.query.reassignTo === "string" && req.query.reassignTo
+        ? req.query.reassignTo
+        : undefined;
+      if (reassignTo) {
+        const target = await storage.getCategory(reassignTo);
+        if (!target || target.deletedAt || target.id === req.params.id) {
+          return res.status(400).json({ message: "Choose another category to move the products to", field: "reassignTo" });
+        }
+      }
+
+      const success = await storage.deleteCategory(req.params.id, reassignTo);
+      if (!success) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json({ message: "Category moved to trash" });
+    } catch (error) {
+      if (error instanceof CategoryInUseError) {
+        return res.status(409).json({ message: error.message, productCount: error.productCount });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/categories/:id/restore", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const category = await storage.restoreCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found in trash" });
+      }
+      res.json(category);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/categories/:id/purge", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const success = await storage.purgeCategory(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Category not found in trash" });
+      }
+      res.json({ message: "Category permanently deleted" });
+    } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -212,17 +612,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Product routes
   app.get("/api/products", async (req, res) => {
     try {
-      const { categoryId, search, minPrice, maxPrice } = req.query;
-      
-      const filters: any = {};
-      if (categoryId) filters.categoryId = categoryId as string;
-      if (search) filters.search = search as string;
-      if (minPrice) filters.minPrice = parseFloat(minPrice as string);
-      if (maxPrice) filters.maxPrice = parseFloat(maxPrice as string);
-      
-      const products = await storage.getProducts(filters);
+      const query = productQuerySchema.parse(req.query);
+      const products = await storage.getProducts(query);
       res.json(products);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/products/facets", async (req, res) => {
+    try {
+      const query = productQuerySchema.parse(req.query);
+      const facets = await storage.getProductFacets(query);
+      res.json(facets);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -230,10 +639,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/products/:id", async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
-      if (!product) {
+      // Inactive and trashed products are hidden from the storefront just like in the list
+      if (!product || product.isActive === false || product.deletedAt) {
         return res.status(404).json({ message: "Product not found" });
       }
-      res.json(product);
+      const variants = await storage.getProductVariants(product.id);
+      const media = await storage.getProductMedia([product.id]);
+      res.json({ ...product, variants, media });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
@@ -242,12 +654,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/products", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
       const data = insertProductSchema.parse(req.body);
+      const variantsError = getVariantsError(data.options ?? [], data.variants ?? []);
+      if (variantsError) {
+        return res.status(400).json({ message: variantsError });
+      }
       const product = await storage.createProduct(data);
       res.json(product);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "SKU is already in use" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -255,6 +674,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/products/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
       const data = insertProductSchema.partial().parse(req.body);
+      if (data.variants) {
+        const options = data.options ?? (await storage.getProduct(req.params.id))?.options ?? [];
+        const variantsError = getVariantsError(options, data.variants);
+        if (variantsError) {
+          return res.status(400).json({ message: variantsError });
+        }
+      }
       const product = await storage.updateProduct(req.params.id, data);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
@@ -264,6 +690,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "SKU is already in use" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -277,74 +706,946 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`Product not found: ${req.params.id}`);
         return res.status(404).json({ message: "Product not found" });
       }
-      console.log(`Product deleted successfully: ${req.params.id}`);
-      res.json({ message: "Product deleted successfully" });
+      console.log(`Product moved to trash: ${req.params.id}`);
+      res.json({ message: "Product moved to trash" });
     } catch (error) {
       console.error(`Error deleting product: ${error}`);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Order routes
-  app.get("/api/orders", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/products/:id/restore", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
-      const userId = req.user!.role === 'admin' ? undefined : req.user!.id;
-      const orders = await storage.getOrders(userId);
-      res.json(orders);
+      const product = await storage.restoreProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found in trash" });
+      }
+      res.json(product);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/orders", authenticateToken, async (req: AuthRequest, res) => {
+  app.delete("/api/products/:id/purge", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
-      const { items, totalPrice } = req.body;
-      
-      if (!items || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ message: "Order items are required" });
+      const success = await storage.purgeProduct(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Product not found in trash" });
       }
+      res.json({ message: "Product permanently deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      const order = await storage.createOrder({
-        userId: req.user!.id,
-        totalPrice: totalPrice.toString(),
-        status: "pending",
-        customerEmail: req.user!.email,
-      });
+  // Trash routes
+  app.get("/api/trash", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const trash = await storage.getTrash();
+      res.json(trash);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Create order items
-      for (const item of items) {
-        await storage.createOrderItem({
-          orderId: order.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price.toString(),
-        });
+  // Review routes
+  app.get("/api/products/:id/reviews", async (req, res) => {
+    try {
+      const reviews = await storage.getReviews({ productId: req.params.id, status: "approved" });
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/products/:id/reviews/mine", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const review = await storage.getUserReview(req.user!.id, req.params.id);
+      const canReview = review ? false : await storage.hasPurchasedProduct(req.user!.id, req.params.id);
+      res.json({ review: review ?? null, canReview });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/products/:id/reviews", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = insertReviewSchema.parse(req.body);
+
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.deletedAt) {
+        return res.status(404).json({ message: "Product not found" });
       }
 
-      res.json(order);
+      if (!(await storage.hasPurchasedProduct(req.user!.id, product.id))) {
+        return res.status(403).json({ message: "Only customers who bought this product can review it" });
+      }
+
+      if (await storage.getUserReview(req.user!.id, product.id)) {
+        return res.status(409).json({ message: "You have already reviewed this product" });
+      }
+
+      const review = await storage.createReview({ ...data, productId: product.id, userId: req.user!.id });
+      res.json(review);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      // Two concurrent submissions from the same customer
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "You have already reviewed this product" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.put("/api/orders/:id/status", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/reviews", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const status = reviewStatuses.find((s) => s === req.query.status);
+      const reviews = await storage.getReviews({ status });
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/reviews/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { status } = req.body;
-      if (!status) {
-        return res.status(400).json({ message: "Status is required" });
+      const data = insertReviewSchema.partial().parse(req.body);
+
+      const existing = await storage.getReview(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Review not found" });
       }
 
-      const order = await storage.updateOrderStatus(req.params.id, status);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      const review = await storage.updateReview(existing.id, data);
+      res.json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
       }
-      res.json(order);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/reviews/:id/status", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { status } = reviewStatusSchema.parse(req.body);
+      const review = await storage.setReviewStatus(req.params.id, status);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      res.json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/reviews/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const existing = await storage.getReview(req.params.id);
+      // Customers may delete their own reviews; admins may delete any
+      if (!existing || (existing.userId !== req.user!.id && req.user!.role !== 'admin')) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      await storage.deleteReview(existing.id);
+      res.json({ message: "Review deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Tax routes
+  app.get("/api/tax/classes", async (req, res) => {
+    try {
+      const taxClasses = await storage.getTaxClasses();
+      res.json(taxClasses);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
+  app.post("/api/tax/classes", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const taxClassData = insertTaxClassSchema.parse(req.body);
+      const taxClass = await storage.createTaxClass(taxClassData);
+      res.json(taxClass);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A tax class with this name already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Products and categories in the class fall back to standard rate
+  app.delete("/api/tax/classes/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteTaxClass(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tax class not found" });
+      }
+      res.json({ message: "Tax class deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tax/rules", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const rules = await storage.getTaxRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/tax/rules", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const ruleData = insertTaxRuleSchema.parse(req.body);
+      const rule = await storage.createTaxRule(ruleData);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/tax/rules/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const ruleData = insertTaxRuleSchema.parse(req.body);
+      const rule = await storage.updateTaxRule(req.params.id, ruleData);
+      if (!rule) {
+        return res.status(404).json({ message: "Tax rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/tax/rules/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteTaxRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tax rule not found" });
+      }
+      res.json({ message: "Tax rule deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tax/exempt-customers", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const customers = await storage.getTaxExemptUsers();
+      res.json(customers.map(({ id, username, email }) => ({ id, username, email })));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Customers are identified by email since there is no customer list to pick from
+  app.put("/api/tax/exempt-customers", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { email, taxExempt } = z.object({
+        email: z.string().email(),
+        taxExempt: z.boolean(),
+      }).parse(req.body);
+
+      const customer = await storage.getUserByEmail(email);
+      if (!customer) {
+        return res.status(404).json({ message: "No customer with this email" });
+      }
+      const updated = await storage.setUserTaxExempt(customer.id, taxExempt);
+      res.json({ id: updated!.id, username: updated!.username, email: updated!.email, taxExempt: updated!.taxExempt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Shipping routes
+  // Rates for every method that ships to the destination, in display order
+  app.post("/api/shipping/rates", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const { items, couponCode, destination } = orderRequestSchema.parse(req.body);
+      const rates = await storage.getShippingRates({
+        lines: items,
+        couponCode,
+        destination,
+        userId: req.user?.id,
+        taxExempt: req.user?.taxExempt,
+      });
+      res.json(rates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof OrderPricingError) {
+        return res.status(400).json({ message: error.message, productId: error.productId });
+      }
+      if (error instanceof CouponError) {
+        return res.status(400).json({ message: error.message, field: "couponCode" });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ message: error.message, field: "shippingMethodId" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/shipping/zones", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const zones = await storage.getShippingZones();
+      res.json(zones);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/shipping/zones", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const zoneData = insertShippingZoneSchema.parse(req.body);
+      const zone = await storage.createShippingZone(zoneData);
+      res.json(zone);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/shipping/zones/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const zoneData = insertShippingZoneSchema.parse(req.body);
+      const zone = await storage.updateShippingZone(req.params.id, zoneData);
+      if (!zone) {
+        return res.status(404).json({ message: "Shipping zone not found" });
+      }
+      res.json(zone);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Deleting a zone also deletes its methods
+  app.delete("/api/shipping/zones/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteShippingZone(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Shipping zone not found" });
+      }
+      res.json({ message: "Shipping zone deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/shipping/zones/:id/methods", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const methodData = insertShippingMethodSchema.parse(req.body);
+      const method = await storage.createShippingMethod(req.params.id, methodData);
+      res.json(method);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/shipping/methods/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const methodData = insertShippingMethodSchema.parse(req.body);
+      const method = await storage.updateShippingMethod(req.params.id, methodData);
+      if (!method) {
+        return res.status(404).json({ message: "Shipping method not found" });
+      }
+      res.json(method);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/shipping/methods/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteShippingMethod(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Shipping method not found" });
+      }
+      res.json({ message: "Shipping method deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Coupon routes
+  app.get("/api/coupons", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const coupons = await storage.getCoupons();
+      res.json(coupons);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/coupons", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const couponData = insertCouponSchema.parse(req.body);
+      const coupon = await storage.createCoupon(couponData);
+      res.json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A coupon with this code already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/coupons/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const couponData = insertCouponSchema.parse(req.body);
+      const coupon = await storage.updateCoupon(req.params.id, couponData);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      res.json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A coupon with this code already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/coupons/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteCoupon(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      res.json({ message: "Coupon deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Checks a code against the current cart and returns the discounted quote
+  app.post("/api/coupons/validate", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const { code, items, destination, shippingMethodId } = z.object({
+        code: couponCodeSchema,
+        items: z.array(orderLineSchema).min(1, "Your cart is empty"),
+        destination: destinationSchema.nullish(),
+        shippingMethodId: z.string().nullish(),
+      }).parse(req.body);
+
+      const quote = await storage.quoteOrder({
+        lines: items,
+        couponCode: code,
+        destination,
+        shippingMethodId,
+        userId: req.user?.id,
+        taxExempt: req.user?.taxExempt,
+      });
+      res.json({ valid: true, quote });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof CouponError) {
+        return res.status(400).json({ valid: false, message: error.message });
+      }
+      if (error instanceof OrderPricingError) {
+        return res.status(400).json({ message: error.message, productId: error.productId });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ message: error.message, field: "shippingMethodId" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Cart routes. Signed-in customers have one cart; guests are known by the
+  // token returned with their first change, sent back in X-Cart-Token.
+  const cartOwner = (req: AuthRequest): CartOwner => req.user
+    ? { userId: req.user.id }
+    : { token: req.get("x-cart-token") || undefined };
+
+  app.get("/api/cart", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getCart(cartOwner(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/cart/items", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const line = orderLineSchema.parse(req.body);
+      res.json(await storage.addCartItem(cartOwner(req), line));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof CartError) {
+        return res.status(400).json({ message: error.message, productId: error.productId });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // A quantity of 0 removes the line
+  app.patch("/api/cart/items/:key", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const { quantity } = cartQuantitySchema.parse(req.body);
+      const cart = await storage.setCartItemQuantity(cartOwner(req), req.params.key, quantity);
+      if (!cart) {
+        return res.status(404).json({ message: "Cart item not found" });
+      }
+      res.json(cart);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/cart/items/:key", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const cart = await storage.setCartItemQuantity(cartOwner(req), req.params.key, 0);
+      if (!cart) {
+        return res.status(404).json({ message: "Cart item not found" });
+      }
+      res.json(cart);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Replaces every line at once; used to upload a cart kept in the browser
+  app.put("/api/cart", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const { items } = cartReplaceSchema.parse(req.body);
+      res.json(await storage.replaceCart(cartOwner(req), items));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof CartError) {
+        return res.status(400).json({ message: error.message, productId: error.productId });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/cart", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      await storage.clearCart(cartOwner(req));
+      res.json({ message: "Cart cleared" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Flags lines whose price changed since the customer saw it, that can no
+  // longer be bought, or that ask for more than is in stock
+  app.post("/api/cart/validate", async (req, res) => {
+    try {
+      const { items } = cartValidationSchema.parse(req.body);
+      const issues = await storage.validateCart(items);
+      res.json({ valid: issues.length === 0, issues });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Called after signing in, with the token of the cart filled as a guest
+  app.post("/api/cart/merge", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { token } = z.object({ token: z.string().min(1, "Cart token is required") }).parse(req.body);
+      res.json(await storage.mergeGuestCart(req.user!.id, token));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Wishlist routes
+  app.get("/api/wishlist", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getWishlist(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/wishlist/items", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { productId } = wishlistItemSchema.parse(req.body);
+      const wishlist = await storage.addWishlistItem(req.user!.id, productId);
+      if (!wishlist) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(wishlist);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/wishlist/items/:productId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.removeWishlistItem(req.user!.id, req.params.productId));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Called after signing in with the products saved as a guest
+  app.post("/api/wishlist/merge", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { productIds } = wishlistMergeSchema.parse(req.body);
+      res.json(await storage.mergeWishlist(req.user!.id, productIds));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/wishlist/sharing", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { shared } = wishlistSharingSchema.parse(req.body);
+      res.json(await storage.setWishlistSharing(req.user!.id, shared));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Read-only view of a list its owner shared
+  app.get("/api/wishlists/shared/:token", async (req, res) => {
+    try {
+      const wishlist = await storage.getSharedWishlist(req.params.token);
+      if (!wishlist) {
+        return res.status(404).json({ message: "Wishlist not found" });
+      }
+      res.json(wishlist);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Order routes
+  app.get("/api/orders", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user!.role === 'admin' ? undefined : req.user!.id;
+      const orders = await storage.getOrders(userId);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/orders/:id", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const order = await storage.getOrderDetail(req.params.id);
+      // Other customers' orders are reported as missing rather than forbidden
+      if (!order || (req.user?.role !== 'admin' && !ownsOrder(req, order))) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Prices a cart without placing an order; used for the cart summary
+  app.post("/api/orders/quote", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const { items, couponCode, destination, shippingMethodId } = orderRequestSchema.parse(req.body);
+      const quote = await storage.quoteOrder({
+        lines: items,
+        couponCode,
+        destination,
+        shippingMethodId,
+        userId: req.user?.id,
+        taxExempt: req.user?.taxExempt,
+      });
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof OrderPricingError) {
+        return res.status(400).json({ message: error.message, productId: error.productId });
+      }
+      if (error instanceof CouponError) {
+        return res.status(400).json({ message: error.message, field: "couponCode" });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ message: error.message, field: "shippingMethodId" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Guests check out with an email instead of an account and get a lookup
+  // token back, which every later request about the order has to present
+  app.post("/api/orders", optionalAuth, idempotent, async (req: AuthRequest, res) => {
+    try {
+      // Only product, variant and quantity are read; totals are computed here
+      const { items, couponCode, shippingMethodId, shippingAddress, billingAddress, paymentMethod, email } = checkoutRequestSchema.parse(req.body);
+      if (!req.user && !email) {
+        return res.status(400).json({ message: "Please enter your email", field: "email" });
+      }
+      const lookup = req.user ? null : createLookupToken();
+
+      const { order, quote } = await storage.placeOrder({
+        userId: req.user?.id,
+        customerEmail: req.user?.email ?? email!,
+        lookupTokenHash: lookup?.hash,
+        lines: items,
+        couponCode,
+        // Shipping and tax follow the address the order actually ships to
+        destination: {
+          country: shippingAddress.country,
+          region: shippingAddress.region ?? undefined,
+          postalCode: shippingAddress.postalCode ?? undefined,
+        },
+        shippingMethodId,
+        shippingAddress,
+        billingAddress: billingAddress ?? shippingAddress,
+        taxExempt: req.user?.taxExempt,
+      });
+      const lookupToken = lookup?.token;
+
+      // The order stays pending until paid. A declined payment cancels it and
+      // gives its stock back; the customer checks out again to retry.
+      let payment: Payment;
+      try {
+        payment = await chargeOrder(order, paymentMethod);
+      } catch (error) {
+        if (error instanceof PaymentError) {
+          await storage.cancelUnpaidOrder(order.id, error.message);
+          return res.status(402).json({ message: error.message, orderId: order.id, lookupToken });
+        }
+        throw error;
+      }
+      if (payment.status === "failed") {
+        return res.status(402).json({ message: payment.failureMessage ?? "Payment failed", orderId: order.id, lookupToken, payment });
+      }
+
+      const current = await storage.getOrder(order.id);
+      res.json({ ...current, quote, payment, lookupToken });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof OrderPricingError) {
+        return res.status(400).json({ message: error.message, productId: error.productId });
+      }
+      if (error instanceof CouponError) {
+        return res.status(400).json({ message: error.message, field: "couponCode" });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ message: error.message, field: "shippingMethodId" });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message, shortages: error.shortages });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Claims guest orders placed with the customer's email, e.g. from another
+  // browser, by the lookup tokens handed out at checkout
+  app.post("/api/orders/claim", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { tokens } = z.object({ tokens: orderLookupTokensSchema }).parse(req.body);
+      const claimed = await storage.claimGuestOrders(req.user!.id, req.user!.email, tokens);
+      res.json(claimed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/orders/:id/status", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { status, note } = orderStatusUpdateSchema.parse(req.body);
+      const order = await storage.updateOrderStatus(req.params.id, status, { changedBy: req.user!.id, note });
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof OrderStatusError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/orders/:id/history", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order || (req.user?.role !== 'admin' && !ownsOrder(req, order))) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const history = await storage.getOrderStatusHistory(order.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payment routes
+  app.get("/api/orders/:id/payments", optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order || (req.user?.role !== 'admin' && !ownsOrder(req, order))) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const orderPayments = await storage.getPayments(order.id);
+      res.json(orderPayments);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/orders/:id/refunds", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const { amount } = refundRequestSchema.parse(req.body);
+      const orderPayments = await storage.getPayments(req.params.id);
+      const payment = orderPayments.find((p) => p.status === "succeeded" || p.status === "partially_refunded");
+      if (!payment) {
+        return res.status(409).json({ message: "This order has no payment to refund" });
+      }
+
+      const refundable = toCents(payment.amount) - toCents(payment.refundedAmount);
+      const refundCents = amount === undefined ? refundable : toCents(amount);
+      if (refundCents > refundable) {
+        return res.status(400).json({ message: `At most $${(refundable / 100).toFixed(2)} can be refunded` });
+      }
+
+      const result = await getPaymentProvider(payment.provider).refund(payment.providerRef, refundCents);
+      if (result.status === "failed") {
+        return res.status(402).json({ message: result.failureMessage ?? "Refund failed" });
+      }
+      const updated = await storage.recordRefund(payment.id, refundCents / 100);
+      const order = await storage.getOrder(payment.orderId);
+      if (updated?.status === "refunded" && order && orderStatusTransitions[order.status as OrderStatus]?.includes("refunded")) {
+        await storage.updateOrderStatus(order.id, "refunded", {
+          changedBy: req.user!.id,
+          note: `Refunded $${(refundCents / 100).toFixed(2)}`,
+        });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(402).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Called by the payment provider, so authenticated by signature instead of a token
+  app.post("/api/payments/webhooks/:provider", async (req, res) => {
+    try {
+      const provider = getPaymentProvider(req.params.provider);
+      await handlePaymentWebhook(provider, req.rawBody ?? Buffer.from(""), req.headers);
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Development stand-in for the bank's 3DS page; only the mock provider has
+  // one, and it is never mounted outside development
+  if (app.get("env") === "development") {
+    app.post("/api/payments/:id/mock-authenticate", optionalAuth, async (req: AuthRequest, res) => {
+      try {
+        const { approve } = z.object({ approve: z.boolean() }).parse(req.body);
+        const payment = await storage.getPayment(req.params.id);
+        const order = payment && await storage.getOrder(payment.orderId);
+        if (!payment || !order || !ownsOrder(req, order)) {
+          return res.status(404).json({ message: "Payment not found" });
+        }
+        const provider = getPaymentProvider(payment.provider);
+        if (!(provider instanceof MockPaymentProvider)) {
+          return res.status(404).json({ message: "Payment not found" });
+        }
+
+        const { rawBody, headers } = provider.simulateAuthentication(payment.providerRef, approve);
+        const updated = await handlePaymentWebhook(provider, rawBody, headers);
+        const current = await storage.getOrder(order.id);
+        res.json({ ...current, payment: updated });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0].message });
+        }
+        if (error instanceof PaymentError) {
+          return res.status(409).json({ message: error.message });
+        }
+        res.status(500).json({ message: "Internal server error" });
+      }
+    });
+  }
 
   const httpServer = createServer(app);
   return httpServer;
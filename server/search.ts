@@ -0,0 +1,25 @@
+import { sql, type SQL } from "drizzle-orm";
+import { products } from "@shared/schema";
+
+// Product search is backed by products.search_vector (name weighted A,
+// category name B, description C) with a pg_trgm fallback on the name so
+// that misspelled queries still find something. The column, trigger and
+// trigram index are installed by `npm run db:search`.
+
+const SEARCH_CONFIG = sql.raw(`'english'`);
+
+function tsQuery(term: string): SQL {
+  return sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${term})`;
+}
+
+export function productSearchCondition(term: string): SQL {
+  return sql`(${products.searchVector} @@ ${tsQuery(term)} or ${products.name} % ${term})`;
+}
+
+export function productSearchRank(term: string): SQL<number> {
+  return sql<number>`(ts_rank_cd(${products.searchVector}, ${tsQuery(term)}) + similarity(${products.name}, ${term}))`;
+}
+
+export function productSearchSnippet(term: string): SQL<string | null> {
+  return sql<string | null>`ts_headline(${SEARCH_CONFIG}, coalesce(${products.description}, ''), ${tsQuery(term)}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')`;
+}
@@ -0,0 +1,36 @@
+import type { Destination, ShippingMethod, ShippingZone } from "@shared/schema";
+
+// Shipping is charged per order. The destination picks a zone, the customer
+// picks one of the zone's methods, and the method's rate type prices it.
+
+export class ShippingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShippingError";
+  }
+}
+
+export function findShippingZone<T extends ShippingZone>(zones: T[], destination: Destination): T | undefined {
+  const inCountry = zones.filter((zone) => zone.isActive && zone.countries.includes(destination.country));
+  return inCountry.find((zone) => zone.regions.length > 0 && !!destination.region && zone.regions.includes(destination.region))
+    ?? inCountry.find((zone) => zone.regions.length === 0);
+}
+
+// Cost in cents for an order worth `subtotalCents` (after discounts) weighing `weightKg`
+export function shippingRate(method: ShippingMethod, subtotalCents: number, weightKg: number): number {
+  const base = Math.round(Number(method.baseRate) * 100);
+  switch (method.rateType) {
+    case "weight":
+      return base + Math.round(Number(method.perKgRate) * 100 * weightKg);
+    case "price_tiered": {
+      const tier = [...method.tiers]
+        .sort((a, b) => b.minSubtotal - a.minSubtotal)
+        .find((t) => subtotalCents >= Math.round(t.minSubtotal * 100));
+      return tier ? Math.round(tier.rate * 100) : base;
+    }
+    case "free_over":
+      return method.freeThreshold !== null && subtotalCents >= Math.round(Number(method.freeThreshold) * 100) ? 0 : base;
+    default:
+      return base;
+  }
+}
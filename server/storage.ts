@@ -9,19 +9,125 @@ import {
   type InsertUser,
   type Category,
   type InsertCategory,
+  type Trash,
+  type Cart,
+  type CartItem,
+  type CartView,
+  type CartValidationLine,
+  type CartIssue,
+  type Wishlist,
+  type WishlistEntry,
+  type WishlistView,
+  type SharedWishlist,
   type Product,
+  type ProductSearchResult,
   type InsertProduct,
+  type ProductVariant,
+  type InsertProductVariant,
+  type ProductMedia,
+  type InsertProductMedia,
+  type ProductListItem,
+  type Review,
+  type InsertReview,
+  type ReviewStatus,
+  type ReviewWithAuthor,
   type Order,
   type InsertOrder,
   type OrderItem,
-  type InsertOrderItem
+  type IdempotencyKey,
+  type InsertOrderItem,
+  type OrderItemDetail,
+  type OrderDetail,
+  type OrderStatus,
+  type OrderStatusChange,
+  type Payment,
+  type PaymentStatus,
+  type OrderLine,
+  type OrderQuote,
+  type Coupon,
+  type InsertCoupon,
+  type Address,
+  type InsertAddress,
+  type PostalAddress,
+  type TaxClass,
+  type InsertTaxClass,
+  type TaxRule,
+  type InsertTaxRule,
+  type Destination,
+  type ShippingZone,
+  type InsertShippingZone,
+  type ShippingMethod,
+  type InsertShippingMethod,
+  type ShippingZoneWithMethods,
+  type ShippingRate,
+  type ProductQuery,
+  type ProductSort,
+  type ProductFacets,
+  type Paginated,
+  productPriceBuckets,
+  slugify,
+  productRatingBuckets
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
 import bcrypt from "bcryptjs";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, and, or, gte, lte, ilike } from "drizzle-orm";
-import { users, categories, products, orders, orderItems } from "../shared/schema";
+import { eq, ne, and, gte, lte, gt, lt, inArray, notInArray, isNull, isNotNull, asc, desc, sql, getTableColumns, type SQL } from "drizzle-orm";
+import { users, addresses, categories, products, productVariants, productMedia, reviews, taxClasses, taxRules, shippingZones, shippingMethods, coupons, couponRedemptions, orders, orderItems, orderStatusHistory, payments, paymentEvents, idempotencyKeys, carts, cartItems, wishlists, wishlistItems } from "../shared/schema";
+import { productSearchCondition, productSearchRank, productSearchSnippet } from "./search";
+import { priceOrder, type Catalog, type PricingContext } from "./pricing";
+import { InsufficientStockError, findStockShortages, stockDemand } from "./inventory";
+import { CouponError, type CouponUsage } from "./promotions";
+import { STORE_DESTINATION } from "./tax";
+import { findShippingZone } from "./shipping";
+import { assertOrderTransition } from "./order-status";
+import { CategoryInUseError } from "./categories";
+import { hashLookupToken } from "./order-lookup";
+import { CartError, cartLineKey, findCartIssues, mergedQuantity, parseCartLineKey } from "./cart";
+import { IDEMPOTENCY_KEY_TTL_MS } from "./idempotency";
+import { UNPAID_ORDER_TTL_MS, type PaymentIntent } from "./payments";
+
+// What a quote or checkout asks for; everything else about the order is derived
+export interface OrderContext {
+  lines: OrderLine[];
+  couponCode?: string | null;
+  destination?: Destination | null;
+  shippingMethodId?: string | null;
+  userId?: string;
+  // Counts a guest's earlier uses of a coupon, as there is no user to count them by
+  customerEmail?: string | null;
+  taxExempt?: boolean;
+}
+
+export interface NewOrder extends OrderContext {
+  customerEmail: string | null;
+  shippingAddress: PostalAddress;
+  billingAddress: PostalAddress;
+  lookupTokenHash?: string | null; // guest checkouts only
+}
+
+// Who moved an order to a new status and why; no user means the system did
+export interface StatusChange {
+  changedBy?: string | null;
+  note?: string | null;
+}
+
+// Whose cart a request is about: the signed-in customer's, or else the
+// guest cart holding the token
+export interface CartOwner {
+  userId?: string;
+  token?: string;
+}
+
+export interface NewPayment {
+  orderId: string;
+  provider: string;
+  providerRef: string;
+  amount: string;
+  currency: string;
+  status: PaymentStatus;
+  failureMessage?: string | null;
+}
 
 export interface IStorage {
   // User methods
@@ -29,34 +135,215 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getTaxExemptUsers(): Promise<User[]>;
+  setUserTaxExempt(id: string, taxExempt: boolean): Promise<User | undefined>;
+
+  // Address book methods
+  getAddresses(userId: string): Promise<Address[]>;
+  getAddress(id: string, userId: string): Promise<Address | undefined>;
+  createAddress(userId: string, address: InsertAddress): Promise<Address>;
+  updateAddress(id: string, userId: string, address: InsertAddress): Promise<Address | undefined>;
+  setDefaultAddress(id: string, userId: string): Promise<Address | undefined>;
+  deleteAddress(id: string, userId: string): Promise<boolean>;
 
   // Category methods
   getCategories(): Promise<Category[]>;
   getCategory(id: string): Promise<Category | undefined>;
+  getCategoryBySlug(slug: string): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
-  deleteCategory(id: string): Promise<boolean>;
+  // Deleting moves a category or product to the trash; purging removes it for good.
+  // A category still in use needs somewhere to move its products to.
+  deleteCategory(id: string, reassignTo?: string): Promise<boolean>;
+  restoreCategory(id: string): Promise<Category | undefined>;
+  purgeCategory(id: string): Promise<boolean>;
 
   // Product methods
-  getProducts(filters?: { categoryId?: string; search?: string; minPrice?: number; maxPrice?: number }): Promise<Product[]>;
+  getProducts(query: ProductQuery): Promise<Paginated<ProductListItem>>;
+  getProductFacets(query: ProductQuery): Promise<ProductFacets>;
   getProduct(id: string): Promise<Product | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
+  restoreProduct(id: string): Promise<Product | undefined>;
+  purgeProduct(id: string): Promise<boolean>;
+  getTrash(): Promise<Trash>;
+
+  // Product variant methods
+  getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+
+  // Product media methods
+  getProductMedia(productIds: string[]): Promise<ProductMedia[]>;
 
   // Order methods
   getOrders(userId?: string): Promise<Order[]>;
   getOrder(id: string): Promise<Order | undefined>;
+  getOrderDetail(id: string): Promise<OrderDetail | undefined>;
   createOrder(order: InsertOrder): Promise<Order>;
-  updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  quoteOrder(context: OrderContext): Promise<OrderQuote>;
+  getShippingRates(context: OrderContext): Promise<ShippingRate[]>;
+  placeOrder(order: NewOrder): Promise<{ order: Order; quote: OrderQuote }>;
+  updateOrderStatus(id: string, status: OrderStatus, change?: StatusChange): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]>;
+  claimGuestOrders(userId: string, email: string, lookupTokens: string[]): Promise<Order[]>;
+  setOrderLookupToken(orderId: string, lookupTokenHash: string): Promise<boolean>;
+
+  // Payment methods
+  getPayments(orderId: string): Promise<Payment[]>;
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByProviderRef(provider: string, providerRef: string): Promise<Payment | undefined>;
+  createPayment(payment: NewPayment): Promise<Payment>;
+  updatePaymentStatus(id: string, status: PaymentStatus, failureMessage?: string | null): Promise<Payment | undefined>;
+  settleConfirmedPayment(id: string, settle: (orderPending: boolean) => Promise<PaymentIntent>): Promise<Payment | undefined>;
+  cancelUnpaidOrder(orderId: string, reason: string): Promise<void>;
+  recordRefund(id: string, amount: number): Promise<Payment | undefined>;
+  recordPaymentEvent(provider: string, eventId: string, type: string, paymentId: string | null): Promise<boolean>;
+
+  // Idempotency key methods
+  reserveIdempotencyKey(scope: string, key: string, fingerprint: string): Promise<{ record: IdempotencyKey; created: boolean }>;
+  getIdempotencyKey(id: string): Promise<IdempotencyKey | undefined>;
+  saveIdempotentResponse(id: string, status: number, body: unknown): Promise<void>;
+  releaseIdempotencyKey(id: string): Promise<void>;
 
   // Order item methods
   getOrderItems(orderId: string): Promise<OrderItem[]>;
   createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
+
+  // Tax methods
+  getTaxClasses(): Promise<TaxClass[]>;
+  createTaxClass(taxClass: InsertTaxClass): Promise<TaxClass>;
+  deleteTaxClass(id: string): Promise<boolean>;
+  getTaxRules(): Promise<TaxRule[]>;
+  createTaxRule(rule: InsertTaxRule): Promise<TaxRule>;
+  updateTaxRule(id: string, rule: InsertTaxRule): Promise<TaxRule | undefined>;
+  deleteTaxRule(id: string): Promise<boolean>;
+
+  // Shipping methods
+  getShippingZones(): Promise<ShippingZoneWithMethods[]>;
+  createShippingZone(zone: InsertShippingZone): Promise<ShippingZone>;
+  updateShippingZone(id: string, zone: InsertShippingZone): Promise<ShippingZone | undefined>;
+  deleteShippingZone(id: string): Promise<boolean>;
+  createShippingMethod(zoneId: string, method: InsertShippingMethod): Promise<ShippingMethod>;
+  updateShippingMethod(id: string, method: InsertShippingMethod): Promise<ShippingMethod | undefined>;
+  deleteShippingMethod(id: string): Promise<boolean>;
+
+  // Coupon methods
+  getCoupons(): Promise<Coupon[]>;
+  getCoupon(id: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: string, coupon: InsertCoupon): Promise<Coupon | undefined>;
+  deleteCoupon(id: string): Promise<boolean>;
+
+  // Cart methods. Adding or replacing throws CartError for lines that can't
+  // be bought; a guest without a cart gets a new one and its token.
+  getCart(owner: CartOwner): Promise<CartView>;
+  addCartItem(owner: CartOwner, line: OrderLine): Promise<CartView>;
+  setCartItemQuantity(owner: CartOwner, key: string, quantity: number): Promise<CartView | undefined>;
+  replaceCart(owner: CartOwner, lines: OrderLine[]): Promise<CartView>;
+  clearCart(owner: CartOwner): Promise<void>;
+  mergeGuestCart(userId: string, token: string): Promise<CartView>;
+  validateCart(lines: CartValidationLine[]): Promise<CartIssue[]>;
+
+  // Wishlist methods
+  getWishlist(userId: string): Promise<WishlistView>;
+  addWishlistItem(userId: string, productId: string): Promise<WishlistView | undefined>;
+  removeWishlistItem(userId: string, productId: string): Promise<WishlistView>;
+  mergeWishlist(userId: string, productIds: string[]): Promise<WishlistView>;
+  setWishlistSharing(userId: string, shared: boolean): Promise<WishlistView>;
+  getSharedWishlist(shareToken: string): Promise<SharedWishlist | undefined>;
+
+  // Review methods
+  getReviews(filters?: { productId?: string; status?: ReviewStatus }): Promise<ReviewWithAuthor[]>;
+  getReview(id: string): Promise<Review | undefined>;
+  getUserReview(userId: string, productId: string): Promise<Review | undefined>;
+  hasPurchasedProduct(userId: string, productId: string): Promise<boolean>;
+  createReview(review: InsertReview & { productId: string; userId: string }): Promise<Review>;
+  updateReview(id: string, review: Partial<InsertReview>): Promise<Review | undefined>;
+  setReviewStatus(id: string, status: ReviewStatus): Promise<Review | undefined>;
+  deleteReview(id: string): Promise<boolean>;
 }
 
+// Every product column except the search document, which is never sent to clients
+const { searchVector: _searchVector, ...productColumns } = getTableColumns(products);
+
+type FacetDimension = "category" | "price" | "rating" | "availability";
+
+// Filters for a product listing. A facet's counts are computed without its
+// own filter so that the sidebar still offers the alternatives to a selection.
+function productConditions(query: ProductQuery, exclude?: FacetDimension): SQL[] {
+  const conditions: SQL[] = [eq(products.isActive, true), isNull(products.deletedAt)];
+
+  if (query.categoryId?.length && exclude !== "category") {
+    conditions.push(inArray(products.categoryId, query.includeDescendants
+      ? categorySubtree(query.categoryId)
+      : query.categoryId));
+  }
+
+  if (query.search) {
+    conditions.push(productSearchCondition(query.search));
+  }
+
+  if (query.minPrice !== undefined && exclude !== "price") {
+    conditions.push(gte(products.price, query.minPrice.toString()));
+  }
+
+  if (query.maxPrice !== undefined && exclude !== "price") {
+    const maxPrice = query.maxPrice.toString();
+    conditions.push(query.maxPriceExclusive ? lt(products.price, maxPrice) : lte(products.price, maxPrice));
+  }
+
+  if (query.minRating !== undefined && exclude !== "rating") {
+    conditions.push(gte(products.rating, query.minRating.toString()));
+  }
+
+  if (query.inStock !== undefined && exclude !== "availability") {
+    conditions.push(query.inStock ? gt(products.stock, 0) : lte(products.stock, 0));
+  }
+
+  return conditions;
+}
+
+// Ids of the given categories and all their live descendants. `union` rather
+// than `union all` so that a cycle in the tree can't recurse forever.
+function categorySubtree(ids: string[]): SQL {
+  return sql`(
+    with recursive subtree(id) as (
+      select ${categories.id} from ${categories} where ${inArray(categories.id, ids)}
+      union
+      select c.id from ${categories} c join subtree on c.parent_id = subtree.id where c.deleted_at is null
+    )
+    select id from subtree
+  )`;
+}
+
+// The id tiebreaker keeps page boundaries stable when sort keys collide
+function productOrderBy(sort: ProductSort): SQL[] {
+  switch (sort) {
+    case "price-asc":
+      return [asc(products.price), asc(products.id)];
+    case "price-desc":
+      return [desc(products.price), asc(products.id)];
+    case "rating":
+      return [sql`${products.rating} desc nulls last`, sql`${products.reviewCount} desc nulls last`, asc(products.id)];
+    case "newest":
+      return [sql`${products.createdAt} desc nulls last`, asc(products.id)];
+    default:
+      // "featured": most reviewed first, then best rated, then newest
+      return [
+        sql`${products.reviewCount} desc nulls last`,
+        sql`${products.rating} desc nulls last`,
+        sql`${products.createdAt} desc nulls last`,
+        asc(products.id),
+      ];
+  }
+}
+
+type Database = ReturnType<typeof drizzle>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 export class DbStorage implements IStorage {
-  private db: ReturnType<typeof drizzle>;
+  private db: Database;
 
   constructor() {
     const sql = postgres(process.env.DATABASE_URL!);
@@ -94,9 +381,100 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getTaxExemptUsers(): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.taxExempt, true)).orderBy(users.email);
+  }
+
+  async setUserTaxExempt(id: string, taxExempt: boolean): Promise<User | undefined> {
+    const result = await this.db.update(users).set({ taxExempt }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  // Address book methods
+  async getAddresses(userId: string): Promise<Address[]> {
+    return this.db.select().from(addresses)
+      .where(eq(addresses.userId, userId))
+      .orderBy(desc(addresses.isDefault), desc(addresses.createdAt));
+  }
+
+  async getAddress(id: string, userId: string): Promise<Address | undefined> {
+    const result = await this.db.select().from(addresses)
+      .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+      .limit(1);
+    return result[0];
+  }
+
+  // A user's first address becomes their default
+  async createAddress(userId: string, address: InsertAddress): Promise<Address> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select({ id: addresses.id }).from(addresses).where(eq(addresses.userId, userId)).limit(1);
+      const isDefault = address.isDefault || !existing;
+      if (isDefault) {
+        await this.clearDefaultAddress(tx, userId);
+      }
+      const [created] = await tx.insert(addresses).values({ ...address, userId, isDefault }).returning();
+      return created;
+    });
+  }
+
+  async updateAddress(id: string, userId: string, address: InsertAddress): Promise<Address | undefined> {
+    const { isDefault, ...fields } = address;
+    return this.db.transaction(async (tx) => {
+      if (isDefault) {
+        await this.clearDefaultAddress(tx, userId, id);
+      }
+      // Unsetting the default is done by choosing another address instead
+      const [updated] = await tx.update(addresses)
+        .set(isDefault ? { ...fields, isDefault } : fields)
+        .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+        .returning();
+      return updated;
+    });
+  }
+
+  async setDefaultAddress(id: string, userId: string): Promise<Address | undefined> {
+    return this.db.transaction(async (tx) => {
+      await this.clearDefaultAddress(tx, userId, id);
+      const [updated] = await tx.update(addresses)
+        .set({ isDefault: true })
+        .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Deleting the default promotes the most recently added remaining address
+  async deleteAddress(id: string, userId: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(addresses)
+        .where(and(eq(addresses.id, id), eq(addresses.userId, userId)))
+        .returning();
+      if (!deleted) return false;
+
+      if (deleted.isDefault) {
+        const [next] = await tx.select({ id: addresses.id }).from(addresses)
+          .where(eq(addresses.userId, userId))
+          .orderBy(desc(addresses.createdAt))
+          .limit(1);
+        if (next) {
+          await tx.update(addresses).set({ isDefault: true }).where(eq(addresses.id, next.id));
+        }
+      }
+      return true;
+    });
+  }
+
+  private async clearDefaultAddress(tx: Transaction, userId: string, exceptId?: string) {
+    const conditions = [eq(addresses.userId, userId), eq(addresses.isDefault, true)];
+    if (exceptId) {
+      conditions.push(ne(addresses.id, exceptId));
+    }
+    await tx.update(addresses).set({ isDefault: false }).where(and(...conditions));
+  }
+
   // Category methods
   async getCategories(): Promise<Category[]> {
-    const result = await this.db.select().from(categories);
+    const result = await this.db.select().from(categories).where(isNull(categories.deletedAt));
     return result.map((category) => ({
       ...category,
       description: category.description === undefined ? null : category.description,
@@ -110,9 +488,17 @@ export class DbStorage implements IStorage {
     return result[0] as unknown as Category;
   }
 
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const result = await this.db.select().from(categories)
+      .where(and(eq(categories.slug, slug), isNull(categories.deletedAt)))
+      .limit(1);
+    return result[0];
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
     const result = await this.db.insert(categories).values({
       ...category,
+      slug: category.slug || slugify(category.name) || randomUUID().slice(0, 8),
       description: category.description ?? null,
       icon: category.icon ?? null,
     }).returning();
@@ -120,83 +506,293 @@ export class DbStorage implements IStorage {
   }
 
   async updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
-    const result = await this.db.update(categories).set(category).where(eq(categories.id, id)).returning();
+    const result = await this.db.update(categories).set(category)
+      .where(and(eq(categories.id, id), isNull(categories.deletedAt)))
+      .returning();
     return result[0] as unknown as Category;
   }
 
-  async deleteCategory(id: string): Promise<boolean> {
-    const result = await this.db.delete(categories).where(eq(categories.id, id));
-    return true; // postgres-js doesn't provide rowCount, assume success if no error
+  // Throws CategoryInUseError when live products use the category and no
+  // replacement is given
+  async deleteCategory(id: string, reassignTo?: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.update(categories)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(categories.id, id), isNull(categories.deletedAt)))
+        .returning({ id: categories.id, parentId: categories.parentId });
+      if (result.length === 0) return false;
+
+      // Subcategories move up a level rather than hang off the trash
+      await tx.update(categories).set({ parentId: result[0].parentId }).where(eq(categories.parentId, id));
+
+      if (reassignTo) {
+        // Trashed products move too, so restoring them doesn't revive the old category
+        await tx.update(products).set({ categoryId: reassignTo }).where(eq(products.categoryId, id));
+      } else {
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+          .from(products)
+          .where(and(eq(products.categoryId, id), isNull(products.deletedAt)));
+        if (count > 0) {
+          throw new CategoryInUseError(count);
+        }
+      }
+      return true;
+    });
+  }
+
+  async restoreCategory(id: string): Promise<Category | undefined> {
+    const result = await this.db.update(categories)
+      .set({ deletedAt: null })
+      .where(and(eq(categories.id, id), isNotNull(categories.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  // Only trashed categories can be purged; their products become uncategorized
+  async purgeCategory(id: string): Promise<boolean> {
+    const result = await this.db.delete(categories)
+      .where(and(eq(categories.id, id), isNotNull(categories.deletedAt)))
+      .returning({ id: categories.id });
+    return result.length > 0;
   }
 
   // Product methods
-  async getProducts(filters?: {
-    categoryId?: string;
-    search?: string;
-    minPrice?: number;
-    maxPrice?: number
-  }): Promise<Product[]> {
-    const conditions = [eq(products.isActive, true)];
+  async getProducts(query: ProductQuery): Promise<Paginated<ProductListItem>> {
+    const where = and(...productConditions(query));
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(products)
+      .where(where);
 
-    if (filters?.categoryId) {
-      conditions.push(eq(products.categoryId, filters.categoryId));
-    }
+    // A search with the default sort is ordered by relevance instead
+    const orderBy = query.search && query.sort === "featured"
+      ? [desc(productSearchRank(query.search)), asc(products.id)]
+      : productOrderBy(query.sort);
 
-    if (filters?.search) {
-      conditions.push(or(
-        ilike(products.name, `%${filters.search}%`),
-        ilike(products.description, `%${filters.search}%`)
-      ) as any);
-    }
+    const result = await this.db
+      .select(query.search
+        ? { ...productColumns, snippet: productSearchSnippet(query.search) }
+        : productColumns)
+      .from(products)
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
 
-    if (filters?.minPrice !== undefined) {
-      conditions.push(gte(products.price, filters.minPrice.toString()));
-    }
+    const items = result as ProductSearchResult[];
+    const media = await this.getProductMedia(items.map((item) => item.id));
 
-    if (filters?.maxPrice !== undefined) {
-      conditions.push(lte(products.price, filters.maxPrice.toString()));
-    }
+    return {
+      items: items.map((item) => ({
+        ...item,
+        media: media.filter((m) => m.productId === item.id),
+      })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      nextPage: query.page * query.pageSize < total ? query.page + 1 : null,
+    };
+  }
+
+  async getProductFacets(query: ProductQuery): Promise<ProductFacets> {
+    const categoryRows = await this.db
+      .select({ categoryId: products.categoryId, count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(and(...productConditions(query, "category")))
+      .groupBy(products.categoryId);
+
+    const priceCounts = Object.fromEntries(productPriceBuckets.map((bucket, i) => [
+      `bucket${i}`,
+      bucket.max === null
+        ? sql<number>`count(*) filter (where ${products.price} >= ${bucket.min})::int`
+        : sql<number>`count(*) filter (where ${products.price} >= ${bucket.min} and ${products.price} < ${bucket.max})::int`,
+    ]));
+    const [priceRow] = await this.db
+      .select(priceCounts)
+      .from(products)
+      .where(and(...productConditions(query, "price")));
 
-    const result = await this.db.select().from(products).where(and(...conditions));
-    return result as unknown as Product[];
+    const ratingCounts = Object.fromEntries(productRatingBuckets.map((min, i) => [
+      `bucket${i}`,
+      sql<number>`count(*) filter (where ${products.rating} >= ${min})::int`,
+    ]));
+    const [ratingRow] = await this.db
+      .select(ratingCounts)
+      .from(products)
+      .where(and(...productConditions(query, "rating")));
+
+    const [availability] = await this.db
+      .select({
+        inStock: sql<number>`count(*) filter (where ${products.stock} > 0)::int`,
+        outOfStock: sql<number>`count(*) filter (where ${products.stock} <= 0)::int`,
+      })
+      .from(products)
+      .where(and(...productConditions(query, "availability")));
+
+    return {
+      categories: categoryRows,
+      price: productPriceBuckets.map((bucket, i) => ({ ...bucket, count: priceRow[`bucket${i}`] })),
+      rating: productRatingBuckets.map((min, i) => ({ min, count: ratingRow[`bucket${i}`] })),
+      availability,
+    };
   }
 
   async getProduct(id: string): Promise<Product | undefined> {
-    const result = await this.db.select().from(products).where(eq(products.id, id)).limit(1);
+    const result = await this.db.select(productColumns).from(products).where(eq(products.id, id)).limit(1);
     return result[0] as unknown as Product;
   }
 
   async createProduct(product: InsertProduct): Promise<Product> {
-    const result = await this.db.insert(products).values({
-      ...product,
-      description: product.description ?? null,
-      categoryId: product.categoryId ?? null,
-      stock: product.stock ?? 0,
-      rating: "0.0",
-      reviewCount: 0,
-      isActive: true,
-    }).returning();
-    return result[0] as Product;
+    const { variants, media, ...fields } = product;
+    return this.db.transaction(async (tx) => {
+      const result = await tx.insert(products).values({
+        ...fields,
+        description: fields.description ?? null,
+        categoryId: fields.categoryId ?? null,
+        stock: fields.stock ?? 0,
+        rating: "0.0",
+        reviewCount: 0,
+        isActive: true,
+      }).returning(productColumns);
+      const id = result[0].id;
+
+      if (variants?.length) await this.syncVariants(tx, id, variants);
+      if (media?.length) await this.syncMedia(tx, id, media);
+      return (variants?.length || media?.length) ? this.selectProduct(tx, id) : result[0] as Product;
+    });
   }
 
   async updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined> {
-    const result = await this.db.update(products).set(product).where(eq(products.id, id)).returning();
-    return result[0] as unknown as Product;
+    const { variants, media, ...fields } = product;
+    return this.db.transaction(async (tx) => {
+      const result = Object.keys(fields).length
+        ? await tx.update(products).set(fields).where(eq(products.id, id)).returning(productColumns)
+        : await tx.select(productColumns).from(products).where(eq(products.id, id)).limit(1);
+      if (!result[0]) return undefined;
+
+      if (variants) await this.syncVariants(tx, id, variants);
+      if (media) await this.syncMedia(tx, id, media);
+      return (variants || media) ? this.selectProduct(tx, id) : result[0] as Product;
+    });
+  }
+
+  private async selectProduct(tx: Transaction, id: string): Promise<Product> {
+    const result = await tx.select(productColumns).from(products).where(eq(products.id, id));
+    return result[0] as Product;
+  }
+
+  // Replaces a product's variants with the given list (matched on id) and
+  // keeps products.stock equal to their combined stock
+  private async syncVariants(tx: Transaction, productId: string, variants: InsertProductVariant[]): Promise<void> {
+    const keptIds = variants.flatMap((variant) => (variant.id ? [variant.id] : []));
+    await tx.delete(productVariants).where(and(
+      eq(productVariants.productId, productId),
+      keptIds.length ? notInArray(productVariants.id, keptIds) : undefined,
+    ));
+
+    for (const { id, ...variant } of variants) {
+      const values = {
+        ...variant,
+        price: variant.price || null,
+        image: variant.image || null,
+      };
+      if (id) {
+        await tx.update(productVariants).set(values)
+          .where(and(eq(productVariants.id, id), eq(productVariants.productId, productId)));
+      } else {
+        await tx.insert(productVariants).values({ ...values, productId });
+      }
+    }
+
+    const stock = variants.length
+      ? variants.reduce((sum, variant) => sum + (variant.stock ?? 0), 0)
+      : undefined;
+    await tx.update(products)
+      .set(stock === undefined ? { options: [] } : { stock })
+      .where(eq(products.id, productId));
+  }
+
+  // Replaces a product's gallery in the given order. Exactly one image ends up
+  // primary (the first if none is flagged) and products.image mirrors it so
+  // listings and carts keep working off a single URL.
+  private async syncMedia(tx: Transaction, productId: string, media: InsertProductMedia[]): Promise<void> {
+    await tx.delete(productMedia).where(eq(productMedia.productId, productId));
+    if (media.length === 0) return;
+
+    const primaryIndex = Math.max(0, media.findIndex((item) => item.isPrimary));
+    await tx.insert(productMedia).values(media.map((item, index) => ({
+      productId,
+      url: item.url,
+      alt: item.alt || null,
+      sortOrder: index,
+      isPrimary: index === primaryIndex,
+    })));
+    await tx.update(products).set({ image: media[primaryIndex].url }).where(eq(products.id, productId));
   }
 
   async deleteProduct(id: string): Promise<boolean> {
-    const result = await this.db.delete(products).where(eq(products.id, id));
-    return true; // postgres-js doesn't provide rowCount, assume success if no error
+    const result = await this.db.update(products)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(products.id, id), isNull(products.deletedAt)))
+      .returning({ id: products.id });
+    return result.length > 0;
+  }
+
+  async restoreProduct(id: string): Promise<Product | undefined> {
+    const result = await this.db.update(products)
+      .set({ deletedAt: null })
+      .where(and(eq(products.id, id), isNotNull(products.deletedAt)))
+      .returning(productColumns);
+    return result[0] as Product | undefined;
+  }
+
+  // Only trashed products can be purged. Order items keep their snapshot and
+  // lose the link; variants, media and reviews go with the product.
+  async purgeProduct(id: string): Promise<boolean> {
+    const result = await this.db.delete(products)
+      .where(and(eq(products.id, id), isNotNull(products.deletedAt)))
+      .returning({ id: products.id });
+    return result.length > 0;
+  }
+
+  async getTrash(): Promise<Trash> {
+    const trashedProducts = await this.db.select(productColumns).from(products)
+      .where(isNotNull(products.deletedAt))
+      .orderBy(desc(products.deletedAt));
+    const trashedCategories = await this.db.select().from(categories)
+      .where(isNotNull(categories.deletedAt))
+      .orderBy(desc(categories.deletedAt));
+    return { products: trashedProducts as Product[], categories: trashedCategories };
+  }
+
+  // Product variant methods
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return this.db.select().from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(productVariants.createdAt, productVariants.sku);
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const result = await this.db.select().from(productVariants).where(eq(productVariants.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Product media methods
+  async getProductMedia(productIds: string[]): Promise<ProductMedia[]> {
+    if (productIds.length === 0) return [];
+    return this.db.select().from(productMedia)
+      .where(inArray(productMedia.productId, productIds))
+      .orderBy(productMedia.productId, productMedia.sortOrder);
   }
 
   // Order methods
   async getOrders(userId?: string): Promise<Order[]> {
     const baseQuery = this.db.select().from(orders);
     if (userId) {
-      const result = await baseQuery.where(eq(orders.userId, userId)).orderBy(orders.createdAt);
+      const result = await baseQuery.where(eq(orders.userId, userId)).orderBy(desc(orders.createdAt));
       return result as unknown as Order[];
     } else {
-      const result = await baseQuery.orderBy(orders.createdAt);
+      const result = await baseQuery.orderBy(desc(orders.createdAt));
       return result as unknown as Order[];
     }
   }
@@ -206,6 +802,44 @@ export class DbStorage implements IStorage {
     return result[0] as unknown as Order;
   }
 
+  // The order with everything a receipt shows: its lines, status history and payments
+  async getOrderDetail(id: string): Promise<OrderDetail | undefined> {
+    const order = await this.getOrder(id);
+    if (!order) return undefined;
+
+    // The live catalog only fills in items ordered before snapshots were kept
+    const rows = await this.db.select({
+      item: orderItems,
+      productName: products.name,
+      productImage: products.image,
+      productOptions: products.options,
+      variantOptions: productVariants.options,
+      variantImage: productVariants.image,
+      variantSku: productVariants.sku,
+    })
+      .from(orderItems)
+      .leftJoin(products, eq(orderItems.productId, products.id))
+      .leftJoin(productVariants, eq(orderItems.variantId, productVariants.id))
+      .where(eq(orderItems.orderId, id));
+
+    const items: OrderItemDetail[] = rows.map(({ item, ...live }) => ({
+      ...item,
+      name: item.productName ?? live.productName ?? "Unavailable product",
+      image: item.image ?? live.variantImage ?? live.productImage,
+      sku: item.sku ?? live.variantSku,
+      variantLabel: item.variantLabel ?? (live.variantOptions && live.productOptions
+        ? live.productOptions.map((o) => live.variantOptions![o.name]).join(" / ")
+        : null),
+    }));
+
+    return {
+      ...order,
+      items,
+      history: await this.getOrderStatusHistory(id),
+      payments: await this.getPayments(id),
+    };
+  }
+
   async createOrder(order: InsertOrder): Promise<Order> {
     const result = await this.db.insert(orders).values({
       ...order,
@@ -215,9 +849,454 @@ export class DbStorage implements IStorage {
     return result[0] as Order;
   }
 
-  async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
-    const result = await this.db.update(orders).set({ status }).where(eq(orders.id, id)).returning();
-    return result[0] as unknown as Order;
+  async quoteOrder(context: OrderContext): Promise<OrderQuote> {
+    const { catalog, pricing } = await this.loadPricing(this.db, context);
+    return priceOrder(context.lines, catalog, pricing);
+  }
+
+  // Every method available for the destination, priced for this cart
+  async getShippingRates(context: OrderContext): Promise<ShippingRate[]> {
+    const { catalog, pricing } = await this.loadPricing(this.db, context);
+    return pricing.shippingMethods.map((method) => {
+      const quote = priceOrder(context.lines, catalog, { ...pricing, shippingMethodId: method.id });
+      return {
+        methodId: method.id,
+        name: method.name,
+        description: method.description,
+        cost: quote.shipping,
+        minDays: method.minDays,
+        maxDays: method.maxDays,
+      };
+    });
+  }
+
+  // Prices the lines from the catalog, reserves their stock and writes the
+  // order and its items in one transaction. The product and variant rows stay
+  // locked until commit, so concurrent checkouts cannot oversell.
+  async placeOrder(order: NewOrder): Promise<{ order: Order; quote: OrderQuote }> {
+    await this.expireUnpaidOrders();
+    return this.db.transaction(async (tx) => {
+      const { catalog, pricing } = await this.loadPricing(tx, order, { lock: true });
+      const quote = priceOrder(order.lines, catalog, pricing);
+
+      const shortages = findStockShortages(quote.lines, catalog);
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+
+      const [created] = await tx.insert(orders).values({
+        userId: order.userId ?? null,
+        customerEmail: order.customerEmail,
+        status: "pending",
+        subtotal: quote.subtotal.toFixed(2),
+        discountAmount: quote.discount.toFixed(2),
+        couponCode: quote.couponCode,
+        shippingMethodId: quote.shippingMethod?.id ?? null,
+        shippingMethodName: quote.shippingMethod?.name ?? null,
+        shippingCost: quote.shipping.toFixed(2),
+        taxAmount: quote.tax.toFixed(2),
+        totalPrice: quote.total.toFixed(2),
+        shippingAddress: order.shippingAddress,
+        billingAddress: order.billingAddress,
+        lookupTokenHash: order.lookupTokenHash ?? null,
+      }).returning();
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: created.id,
+        toStatus: created.status,
+        changedBy: order.userId ?? null,
+      });
+
+      await tx.insert(orderItems).values(quote.lines.map((line) => {
+        const product = catalog.products.find((p) => p.id === line.productId)!;
+        return {
+          orderId: created.id,
+          productId: line.productId,
+          variantId: line.variantId,
+          productName: line.name,
+          variantLabel: line.variantLabel,
+          sku: catalog.variants.find((v) => v.id === line.variantId)?.sku ?? null,
+          image: line.image,
+          categoryName: catalog.categories.find((c) => c.id === product.categoryId)?.name ?? null,
+          quantity: line.quantity,
+          price: line.unitPrice.toFixed(2),
+          taxRate: line.taxRate.toFixed(3),
+          taxAmount: line.tax.toFixed(2),
+        };
+      }));
+
+      // products.stock mirrors the variant total, so it drops either way
+      for (const line of stockDemand(quote.lines)) {
+        if (line.variantId) {
+          await tx.update(productVariants)
+            .set({ stock: sql`${productVariants.stock} - ${line.requested}` })
+            .where(eq(productVariants.id, line.variantId));
+        }
+        await tx.update(products)
+          .set({ stock: sql`${products.stock} - ${line.requested}` })
+          .where(eq(products.id, line.productId));
+      }
+
+      const { promotion } = pricing;
+      if (promotion) {
+        await tx.insert(couponRedemptions).values({
+          couponId: promotion.coupon.id,
+          userId: order.userId ?? null,
+          orderId: created.id,
+        });
+        await tx.update(coupons)
+          .set({ usageCount: sql`${coupons.usageCount} + 1` })
+          .where(eq(coupons.id, promotion.coupon.id));
+      }
+
+      return { order: created, quote };
+    });
+  }
+
+  // Everything priceOrder needs besides the lines. When locking, the coupon
+  // row is locked too so that its usage limit holds under concurrency.
+  private async loadPricing(
+    db: Database | Transaction,
+    context: OrderContext,
+    options?: { lock?: boolean },
+  ): Promise<{ catalog: Catalog; pricing: PricingContext }> {
+    const promotion = context.couponCode
+      ? await this.loadPromotion(db, context.couponCode, context, options)
+      : undefined;
+    const catalog = await this.loadCatalog(db, context.lines, options);
+    const destination = context.destination ?? STORE_DESTINATION;
+    return {
+      catalog,
+      pricing: {
+        promotion,
+        destination,
+        taxRules: await this.loadTaxRules(db, destination),
+        taxExempt: context.taxExempt ?? false,
+        shippingMethods: await this.loadShippingMethods(db, destination),
+        shippingMethodId: context.shippingMethodId,
+      },
+    };
+  }
+
+  private async loadShippingMethods(db: Database | Transaction, destination: Destination): Promise<ShippingMethod[]> {
+    const zones = await db.select().from(shippingZones).where(eq(shippingZones.isActive, true));
+    const zone = findShippingZone(zones, destination);
+    if (!zone) return [];
+    return db.select().from(shippingMethods)
+      .where(and(eq(shippingMethods.zoneId, zone.id), eq(shippingMethods.isActive, true)))
+      .orderBy(shippingMethods.sortOrder, shippingMethods.name);
+  }
+
+  private async loadPromotion(
+    db: Database | Transaction,
+    code: string,
+    customer: { userId?: string; customerEmail?: string | null },
+    options?: { lock?: boolean },
+  ): Promise<CouponUsage> {
+    const couponQuery = db.select().from(coupons).where(eq(coupons.code, code.toUpperCase())).limit(1);
+    const [coupon] = options?.lock ? await couponQuery.for("update") : await couponQuery;
+    if (!coupon) {
+      throw new CouponError("This promo code is not valid");
+    }
+
+    let redemptions = 0;
+    if (customer.userId) {
+      const [result] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(couponRedemptions)
+        .where(and(eq(couponRedemptions.couponId, coupon.id), eq(couponRedemptions.userId, customer.userId)));
+      redemptions = result.count;
+    } else if (customer.customerEmail) {
+      const [result] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(couponRedemptions)
+        .innerJoin(orders, eq(orders.id, couponRedemptions.orderId))
+        .where(and(
+          eq(couponRedemptions.couponId, coupon.id),
+          sql`lower(${orders.customerEmail}) = lower(${customer.customerEmail})`,
+        ));
+      redemptions = result.count;
+    }
+    return { coupon, redemptions };
+  }
+
+  // Rows are locked in id order so that two checkouts never wait on each other
+  private async loadCatalog(
+    db: Database | Transaction,
+    lines: OrderLine[],
+    options?: { lock?: boolean },
+  ): Promise<Catalog> {
+    const productIds = Array.from(new Set(lines.map((line) => line.productId)));
+    const variantIds = Array.from(new Set(lines.flatMap((line) => (line.variantId ? [line.variantId] : []))));
+
+    const productQuery = db.select(productColumns).from(products)
+      .where(inArray(products.id, productIds))
+      .orderBy(products.id);
+    const productRows = options?.lock ? await productQuery.for("update") : await productQuery;
+
+    let variantRows: ProductVariant[] = [];
+    if (variantIds.length) {
+      const variantQuery = db.select().from(productVariants)
+        .where(inArray(productVariants.id, variantIds))
+        .orderBy(productVariants.id);
+      variantRows = options?.lock ? await variantQuery.for("update") : await variantQuery;
+    }
+
+    const categoryIds = Array.from(new Set(productRows.flatMap((p) => (p.categoryId ? [p.categoryId] : []))));
+    const categoryRows = categoryIds.length
+      ? await db.select().from(categories).where(inArray(categories.id, categoryIds))
+      : [];
+
+    return { products: productRows as Product[], variants: variantRows, categories: categoryRows };
+  }
+
+  private async loadTaxRules(db: Database | Transaction, destination: Destination): Promise<TaxRule[]> {
+    return db.select().from(taxRules)
+      .where(and(eq(taxRules.country, destination.country), eq(taxRules.isActive, true)));
+  }
+
+  // Throws OrderStatusError for a move the state machine doesn't allow
+  async updateOrderStatus(id: string, status: OrderStatus, change: StatusChange = {}): Promise<Order | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) return undefined;
+      assertOrderTransition(order.status, status);
+      return this.transitionOrder(tx, order, status, change);
+    });
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+    return this.db.select({
+      ...getTableColumns(orderStatusHistory),
+      changedByName: users.username,
+    })
+      .from(orderStatusHistory)
+      .leftJoin(users, eq(orderStatusHistory.changedBy, users.id))
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+
+  // Replaces a guest order's lookup token; claimed orders no longer have one
+  async setOrderLookupToken(orderId: string, lookupTokenHash: string): Promise<boolean> {
+    const result = await this.db.update(orders)
+      .set({ lookupTokenHash })
+      .where(and(eq(orders.id, orderId), isNull(orders.userId)))
+      .returning({ id: orders.id });
+    return result.length > 0;
+  }
+
+  // Moves guest orders into an account. Matching the email alone is not
+  // enough, since nothing proves the account owns that address: each order's
+  // lookup token must be presented too. Claimed orders drop the token and
+  // are reached by signing in from then on.
+  async claimGuestOrders(userId: string, email: string, lookupTokens: string[]): Promise<Order[]> {
+    if (lookupTokens.length === 0) return [];
+
+    return this.db.transaction(async (tx) => {
+      const claimed = await tx.update(orders)
+        .set({ userId, lookupTokenHash: null })
+        .where(and(
+          isNull(orders.userId),
+          inArray(orders.lookupTokenHash, lookupTokens.map(hashLookupToken)),
+          sql`lower(${orders.customerEmail}) = lower(${email})`,
+        ))
+        .returning();
+
+      if (claimed.length > 0) {
+        await tx.update(couponRedemptions)
+          .set({ userId })
+          .where(inArray(couponRedemptions.orderId, claimed.map((order) => order.id)));
+      }
+      return claimed;
+    });
+  }
+
+  // Expects the order row to be locked by the caller
+  private async transitionOrder(tx: Transaction, order: Order, status: OrderStatus, change: StatusChange): Promise<Order> {
+    const [updated] = await tx.update(orders).set({ status }).where(eq(orders.id, order.id)).returning();
+    await tx.insert(orderStatusHistory).values({
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: status,
+      changedBy: change.changedBy ?? null,
+      note: change.note ?? null,
+    });
+
+    // A cancelled order never ships, so its reserved stock goes back on sale.
+    // Refunds leave stock alone: returned goods are restocked by hand.
+    if (status === "cancelled") {
+      const items = await tx.select().from(orderItems)
+        .where(eq(orderItems.orderId, order.id))
+        .orderBy(orderItems.productId);
+      for (const item of items) {
+        // Deleted products have nothing left to restock
+        if (!item.productId) continue;
+        if (item.variantId) {
+          await tx.update(productVariants)
+            .set({ stock: sql`${productVariants.stock} + ${item.quantity}` })
+            .where(eq(productVariants.id, item.variantId));
+        }
+        await tx.update(products)
+          .set({ stock: sql`${products.stock} + ${item.quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+    }
+    return updated;
+  }
+
+  // Payment methods
+  async getPayments(orderId: string): Promise<Payment[]> {
+    return this.db.select().from(payments).where(eq(payments.orderId, orderId)).orderBy(desc(payments.createdAt));
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const result = await this.db.select().from(payments).where(eq(payments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getPaymentByProviderRef(provider: string, providerRef: string): Promise<Payment | undefined> {
+    const result = await this.db.select().from(payments)
+      .where(and(eq(payments.provider, provider), eq(payments.providerRef, providerRef)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPayment(payment: NewPayment): Promise<Payment> {
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(payments).values(payment).returning();
+      if (created.status === "succeeded") {
+        await this.markOrderPaid(tx, created.orderId);
+      } else if (created.status === "failed") {
+        await this.releaseUnpaidOrder(tx, created.orderId, `Payment failed: ${created.failureMessage ?? "declined"}`);
+      }
+      return created;
+    });
+  }
+
+  async updatePaymentStatus(id: string, status: PaymentStatus, failureMessage?: string | null): Promise<Payment | undefined> {
+    return this.db.transaction((tx) => this.setPaymentStatus(tx, id, status, failureMessage));
+  }
+
+  // Settles a payment the customer confirmed. The order stays locked while
+  // `settle` talks to the provider, so it can't be cancelled in between; an
+  // order that is no longer pending must not be charged.
+  async settleConfirmedPayment(id: string, settle: (orderPending: boolean) => Promise<PaymentIntent>): Promise<Payment | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, id)).limit(1);
+      if (!payment) return undefined;
+      const [order] = await tx.select().from(orders).where(eq(orders.id, payment.orderId)).for("update");
+      const result = await settle(order?.status === "pending");
+      return this.setPaymentStatus(tx, id, result.status, result.failureMessage);
+    });
+  }
+
+  private async setPaymentStatus(tx: Transaction, id: string, status: PaymentStatus, failureMessage?: string | null): Promise<Payment | undefined> {
+    const [updated] = await tx.update(payments)
+      .set({ status, failureMessage: failureMessage ?? null, updatedAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    if (updated?.status === "succeeded") {
+      await this.markOrderPaid(tx, updated.orderId);
+    } else if (updated?.status === "failed") {
+      await this.releaseUnpaidOrder(tx, updated.orderId, `Payment failed: ${updated.failureMessage ?? "declined"}`);
+    }
+    return updated;
+  }
+
+  // For a charge that failed before a payment could be recorded
+  async cancelUnpaidOrder(orderId: string, reason: string): Promise<void> {
+    await this.db.transaction((tx) => this.releaseUnpaidOrder(tx, orderId, `Payment failed: ${reason}`));
+  }
+
+  async recordRefund(id: string, amount: number): Promise<Payment | undefined> {
+    const [updated] = await this.db.update(payments)
+      .set({
+        refundedAmount: sql`${payments.refundedAmount} + ${amount.toFixed(2)}`,
+        status: sql`case when ${payments.refundedAmount} + ${amount.toFixed(2)} >= ${payments.amount} then 'refunded' else 'partially_refunded' end`,
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, id))
+      .returning();
+    return updated;
+  }
+
+  // False when the event was already recorded, i.e. the webhook is a redelivery
+  async recordPaymentEvent(provider: string, eventId: string, type: string, paymentId: string | null): Promise<boolean> {
+    const result = await this.db.insert(paymentEvents)
+      .values({ provider, eventId, type, paymentId })
+      .onConflictDoNothing()
+      .returning({ id: paymentEvents.id });
+    return result.length > 0;
+  }
+
+  // Idempotency key methods
+  // Claims the key for a new request, or returns the request that already
+  // holds it. Expired keys are swept here rather than by a timer.
+  async reserveIdempotencyKey(scope: string, key: string, fingerprint: string): Promise<{ record: IdempotencyKey; created: boolean }> {
+    const now = new Date();
+    await this.db.delete(idempotencyKeys).where(lt(idempotencyKeys.expiresAt, now));
+
+    const [created] = await this.db.insert(idempotencyKeys)
+      .values({ scope, key, fingerprint, expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_MS) })
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      return { record: created, created: true };
+    }
+
+    const [existing] = await this.db.select().from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)))
+      .limit(1);
+    return { record: existing, created: false };
+  }
+
+  async getIdempotencyKey(id: string): Promise<IdempotencyKey | undefined> {
+    const result = await this.db.select().from(idempotencyKeys).where(eq(idempotencyKeys.id, id)).limit(1);
+    return result[0];
+  }
+
+  async saveIdempotentResponse(id: string, status: number, body: unknown): Promise<void> {
+    await this.db.update(idempotencyKeys)
+      .set({ responseStatus: status, responseBody: body })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  // Frees the key after a failure that changed nothing, so it can be retried
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await this.db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  // Only pending orders move on; a late webhook must not undo a cancellation
+  private async markOrderPaid(tx: Transaction, orderId: string) {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+    if (order?.status === "pending") {
+      await this.transitionOrder(tx, order, "processing", { note: "Payment received" });
+    }
+  }
+
+  // A declined order is cancelled so its stock goes back on sale, and its
+  // coupon is given back so the customer can use it on their next attempt
+  private async releaseUnpaidOrder(tx: Transaction, orderId: string, note: string) {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+    if (order?.status !== "pending") return;
+
+    await this.transitionOrder(tx, order, "cancelled", { note });
+    const redemptions = await tx.delete(couponRedemptions)
+      .where(eq(couponRedemptions.orderId, orderId))
+      .returning({ couponId: couponRedemptions.couponId });
+    for (const { couponId } of redemptions) {
+      await tx.update(coupons)
+        .set({ usageCount: sql`greatest(${coupons.usageCount} - 1, 0)` })
+        .where(eq(coupons.id, couponId));
+    }
+  }
+
+  // Orders abandoned before payment, e.g. at the bank's confirmation page,
+  // are swept when the next order is placed rather than by a timer
+  private async expireUnpaidOrders() {
+    const stale = await this.db.select({ id: orders.id }).from(orders)
+      .where(and(eq(orders.status, "pending"), lt(orders.createdAt, new Date(Date.now() - UNPAID_ORDER_TTL_MS))));
+    for (const { id } of stale) {
+      await this.db.transaction((tx) => this.releaseUnpaidOrder(tx, id, "Payment was not completed in time"));
+    }
   }
 
   // Order item methods
@@ -230,6 +1309,524 @@ export class DbStorage implements IStorage {
     const result = await this.db.insert(orderItems).values(orderItem).returning();
     return result[0];
   }
+
+  // Tax methods
+  async getTaxClasses(): Promise<TaxClass[]> {
+    return this.db.select().from(taxClasses).orderBy(taxClasses.name);
+  }
+
+  async createTaxClass(taxClass: InsertTaxClass): Promise<TaxClass> {
+    const result = await this.db.insert(taxClasses).values(taxClass).returning();
+    return result[0];
+  }
+
+  async deleteTaxClass(id: string): Promise<boolean> {
+    const result = await this.db.delete(taxClasses).where(eq(taxClasses.id, id)).returning({ id: taxClasses.id });
+    return result.length > 0;
+  }
+
+  async getTaxRules(): Promise<TaxRule[]> {
+    return this.db.select().from(taxRules)
+      .orderBy(taxRules.country, taxRules.region, taxRules.postalPrefix, desc(taxRules.priority));
+  }
+
+  async createTaxRule(rule: InsertTaxRule): Promise<TaxRule> {
+    const result = await this.db.insert(taxRules).values(rule).returning();
+    return result[0];
+  }
+
+  async updateTaxRule(id: string, rule: InsertTaxRule): Promise<TaxRule | undefined> {
+    const result = await this.db.update(taxRules).set(rule).where(eq(taxRules.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteTaxRule(id: string): Promise<boolean> {
+    const result = await this.db.delete(taxRules).where(eq(taxRules.id, id)).returning({ id: taxRules.id });
+    return result.length > 0;
+  }
+
+  // Shipping methods
+  async getShippingZones(): Promise<ShippingZoneWithMethods[]> {
+    const zones = await this.db.select().from(shippingZones).orderBy(shippingZones.name);
+    const methods = await this.db.select().from(shippingMethods).orderBy(shippingMethods.sortOrder, shippingMethods.name);
+    return zones.map((zone) => ({ ...zone, methods: methods.filter((m) => m.zoneId === zone.id) }));
+  }
+
+  async createShippingZone(zone: InsertShippingZone): Promise<ShippingZone> {
+    const result = await this.db.insert(shippingZones).values(zone).returning();
+    return result[0];
+  }
+
+  async updateShippingZone(id: string, zone: InsertShippingZone): Promise<ShippingZone | undefined> {
+    const result = await this.db.update(shippingZones).set(zone).where(eq(shippingZones.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteShippingZone(id: string): Promise<boolean> {
+    const result = await this.db.delete(shippingZones).where(eq(shippingZones.id, id)).returning({ id: shippingZones.id });
+    return result.length > 0;
+  }
+
+  async createShippingMethod(zoneId: string, method: InsertShippingMethod): Promise<ShippingMethod> {
+    const result = await this.db.insert(shippingMethods).values({ ...method, zoneId }).returning();
+    return result[0];
+  }
+
+  async updateShippingMethod(id: string, method: InsertShippingMethod): Promise<ShippingMethod | undefined> {
+    const result = await this.db.update(shippingMethods).set(method).where(eq(shippingMethods.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteShippingMethod(id: string): Promise<boolean> {
+    const result = await this.db.delete(shippingMethods).where(eq(shippingMethods.id, id)).returning({ id: shippingMethods.id });
+    return result.length > 0;
+  }
+
+  // Coupon methods
+  async getCoupons(): Promise<Coupon[]> {
+    return this.db.select().from(coupons).orderBy(desc(coupons.createdAt));
+  }
+
+  async getCoupon(id: string): Promise<Coupon | undefined> {
+    const result = await this.db.select().from(coupons).where(eq(coupons.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    const result = await this.db.insert(coupons).values(coupon).returning();
+    return result[0];
+  }
+
+  async updateCoupon(id: string, coupon: InsertCoupon): Promise<Coupon | undefined> {
+    const result = await this.db.update(coupons).set(coupon).where(eq(coupons.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCoupon(id: string): Promise<boolean> {
+    const result = await this.db.delete(coupons).where(eq(coupons.id, id)).returning({ id: coupons.id });
+    return result.length > 0;
+  }
+
+  // Cart methods
+  async getCart(owner: CartOwner): Promise<CartView> {
+    return this.cartView(this.db, await this.findCart(this.db, owner));
+  }
+
+  async addCartItem(owner: CartOwner, line: OrderLine): Promise<CartView> {
+    return this.db.transaction(async (tx) => {
+      await this.assertCartLine(tx, line);
+      const cart = await this.ensureCart(tx, owner);
+      const existing = await this.findCartItem(tx, cart.id, line.productId, line.variantId ?? null);
+      if (existing) {
+        await tx.update(cartItems)
+          .set({ quantity: Math.min(existing.quantity + line.quantity, 999) })
+          .where(eq(cartItems.id, existing.id));
+      } else {
+        await tx.insert(cartItems).values({
+          cartId: cart.id,
+          productId: line.productId,
+          variantId: line.variantId ?? null,
+          quantity: line.quantity,
+        });
+      }
+      return this.touchCart(tx, cart);
+    });
+  }
+
+  async setCartItemQuantity(owner: CartOwner, key: string, quantity: number): Promise<CartView | undefined> {
+    return this.db.transaction(async (tx) => {
+      const cart = await this.findCart(tx, owner, { lock: true });
+      if (!cart) return undefined;
+      const { productId, variantId } = parseCartLineKey(key);
+      const item = await this.findCartItem(tx, cart.id, productId, variantId);
+      if (!item) return undefined;
+
+      if (quantity === 0) {
+        await tx.delete(cartItems).where(eq(cartItems.id, item.id));
+      } else {
+        await tx.update(cartItems).set({ quantity }).where(eq(cartItems.id, item.id));
+      }
+      return this.touchCart(tx, cart);
+    });
+  }
+
+  async replaceCart(owner: CartOwner, lines: OrderLine[]): Promise<CartView> {
+    return this.db.transaction(async (tx) => {
+      // Lines naming the same item are combined, as adding them one by one would
+      const merged = new Map<string, OrderLine>();
+      for (const line of lines) {
+        await this.assertCartLine(tx, line);
+        const key = cartLineKey(line.productId, line.variantId);
+        const entry = merged.get(key);
+        merged.set(key, entry ? { ...entry, quantity: Math.min(entry.quantity + line.quantity, 999) } : line);
+      }
+
+      const cart = await this.ensureCart(tx, owner);
+      await tx.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+      if (merged.size > 0) {
+        await tx.insert(cartItems).values(Array.from(merged.values()).map((line) => ({
+          cartId: cart.id,
+          productId: line.productId,
+          variantId: line.variantId ?? null,
+          quantity: line.quantity,
+        })));
+      }
+      return this.touchCart(tx, cart);
+    });
+  }
+
+  async clearCart(owner: CartOwner): Promise<void> {
+    const cart = await this.findCart(this.db, owner);
+    if (cart) {
+      await this.db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+    }
+  }
+
+  // Moves the guest cart's items into the customer's cart and deletes it
+  async mergeGuestCart(userId: string, token: string): Promise<CartView> {
+    return this.db.transaction(async (tx) => {
+      const account = await this.ensureCart(tx, { userId });
+      const guest = await this.findCart(tx, { token }, { lock: true });
+      if (!guest) return this.cartView(tx, account);
+
+      const guestItems = await tx.select().from(cartItems)
+        .where(eq(cartItems.cartId, guest.id))
+        .orderBy(cartItems.createdAt);
+      for (const item of guestItems) {
+        const existing = await this.findCartItem(tx, account.id, item.productId, item.variantId);
+        if (existing) {
+          const stock = await this.cartLineStock(tx, item);
+          await tx.update(cartItems)
+            .set({ quantity: mergedQuantity(existing.quantity, item.quantity, stock) })
+            .where(eq(cartItems.id, existing.id));
+        } else {
+          await tx.update(cartItems).set({ cartId: account.id }).where(eq(cartItems.id, item.id));
+        }
+      }
+      await tx.delete(carts).where(eq(carts.id, guest.id));
+      return this.touchCart(tx, account);
+    });
+  }
+
+  async validateCart(lines: CartValidationLine[]): Promise<CartIssue[]> {
+    if (lines.length === 0) return [];
+    return findCartIssues(lines, await this.loadCatalog(this.db, lines));
+  }
+
+  // A guest token never finds a customer's cart, even one that was merged
+  private async findCart(db: Database | Transaction, owner: CartOwner, options?: { lock?: boolean }): Promise<Cart | undefined> {
+    const condition = owner.userId
+      ? eq(carts.userId, owner.userId)
+      : owner.token ? and(eq(carts.token, owner.token), isNull(carts.userId)) : undefined;
+    if (!condition) return undefined;
+
+    const query = db.select().from(carts).where(condition).limit(1);
+    const result = options?.lock ? await query.for("update") : await query;
+    return result[0];
+  }
+
+  // Returns the owner's cart locked, creating it first if needed. A guest
+  // whose token no longer matches a cart gets a new token.
+  private async ensureCart(tx: Transaction, owner: CartOwner): Promise<Cart> {
+    const existing = await this.findCart(tx, owner, { lock: true });
+    if (existing) return existing;
+
+    if (owner.userId) {
+      // Two first requests from one customer may race; the unique user id settles it
+      await tx.insert(carts).values({ userId: owner.userId }).onConflictDoNothing();
+      return (await this.findCart(tx, owner, { lock: true }))!;
+    }
+    const [created] = await tx.insert(carts).values({ token: randomBytes(24).toString("base64url") }).returning();
+    return created;
+  }
+
+  private async findCartItem(tx: Transaction, cartId: string, productId: string, variantId: string | null): Promise<CartItem | undefined> {
+    const result = await tx.select().from(cartItems)
+      .where(and(
+        eq(cartItems.cartId, cartId),
+        eq(cartItems.productId, productId),
+        variantId ? eq(cartItems.variantId, variantId) : isNull(cartItems.variantId),
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  // Only live products can be added, and products with options only as a variant
+  private async assertCartLine(tx: Transaction, line: OrderLine): Promise<void> {
+    const [product] = await tx.select({
+      name: products.name,
+      options: products.options,
+      isActive: products.isActive,
+      deletedAt: products.deletedAt,
+    }).from(products).where(eq(products.id, line.productId)).limit(1);
+    if (!product || !product.isActive || product.deletedAt) {
+      throw new CartError(product ? `${product.name} is no longer available` : "This product no longer exists", line.productId);
+    }
+
+    if (line.variantId) {
+      const [variant] = await tx.select({ id: productVariants.id }).from(productVariants)
+        .where(and(eq(productVariants.id, line.variantId), eq(productVariants.productId, line.productId)))
+        .limit(1);
+      if (!variant) {
+        throw new CartError(`The selected option for ${product.name} is no longer available`, line.productId);
+      }
+    } else if (product.options.length > 0) {
+      throw new CartError(`Please choose options for ${product.name}`, line.productId);
+    }
+  }
+
+  private async cartLineStock(tx: Transaction, item: CartItem): Promise<number> {
+    const [row] = item.variantId
+      ? await tx.select({ stock: productVariants.stock }).from(productVariants).where(eq(productVariants.id, item.variantId))
+      : await tx.select({ stock: products.stock }).from(products).where(eq(products.id, item.productId));
+    return row?.stock ?? 0;
+  }
+
+  private async touchCart(tx: Transaction, cart: Cart): Promise<CartView> {
+    await tx.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cart.id));
+    return this.cartView(tx, cart);
+  }
+
+  // Prices the cart's lines from the live catalog
+  private async cartView(db: Database | Transaction, cart: Cart | undefined): Promise<CartView> {
+    if (!cart) return { token: null, items: [] };
+
+    const rows = await db.select({
+      item: cartItems,
+      product: {
+        name: products.name,
+        price: products.price,
+        image: products.image,
+        options: products.options,
+      },
+      variant: {
+        price: productVariants.price,
+        image: productVariants.image,
+        options: productVariants.options,
+      },
+    })
+      .from(cartItems)
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .leftJoin(productVariants, eq(cartItems.variantId, productVariants.id))
+      .where(eq(cartItems.cartId, cart.id))
+      .orderBy(cartItems.createdAt, cartItems.id);
+
+    return {
+      token: cart.userId ? null : cart.token,
+      items: rows.map(({ item, product, variant }) => ({
+        id: cartLineKey(item.productId, item.variantId),
+        productId: item.productId,
+        variantId: item.variantId,
+        variantLabel: variant ? product.options.map((o) => variant.options[o.name]).join(" / ") : null,
+        name: product.name,
+        price: Number(variant?.price ?? product.price),
+        image: variant?.image || product.image,
+        quantity: item.quantity,
+      })),
+    };
+  }
+
+  // Wishlist methods
+  async getWishlist(userId: string): Promise<WishlistView> {
+    return this.wishlistView(this.db, await this.findWishlist(this.db, userId));
+  }
+
+  // Only products on sale can be saved; any other id returns undefined
+  async addWishlistItem(userId: string, productId: string): Promise<WishlistView | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx.select({ id: products.id }).from(products)
+        .where(and(eq(products.id, productId), eq(products.isActive, true), isNull(products.deletedAt)))
+        .limit(1);
+      if (!product) return undefined;
+
+      const wishlist = await this.ensureWishlist(tx, userId);
+      await tx.insert(wishlistItems).values({ wishlistId: wishlist.id, productId }).onConflictDoNothing();
+      return this.wishlistView(tx, wishlist);
+    });
+  }
+
+  async removeWishlistItem(userId: string, productId: string): Promise<WishlistView> {
+    const wishlist = await this.findWishlist(this.db, userId);
+    if (wishlist) {
+      await this.db.delete(wishlistItems)
+        .where(and(eq(wishlistItems.wishlistId, wishlist.id), eq(wishlistItems.productId, productId)));
+    }
+    return this.wishlistView(this.db, wishlist);
+  }
+
+  // Adds the products a guest saved; ones no longer on sale are skipped
+  async mergeWishlist(userId: string, productIds: string[]): Promise<WishlistView> {
+    return this.db.transaction(async (tx) => {
+      const wishlist = await this.ensureWishlist(tx, userId);
+      const ids = Array.from(new Set(productIds));
+      const listed = ids.length
+        ? await tx.select({ id: products.id }).from(products)
+          .where(and(inArray(products.id, ids), eq(products.isActive, true), isNull(products.deletedAt)))
+        : [];
+      if (listed.length > 0) {
+        await tx.insert(wishlistItems)
+          .values(listed.map((product) => ({ wishlistId: wishlist.id, productId: product.id })))
+          .onConflictDoNothing();
+      }
+      return this.wishlistView(tx, wishlist);
+    });
+  }
+
+  // Turning sharing off retires the link; sharing again makes a new one
+  async setWishlistSharing(userId: string, shared: boolean): Promise<WishlistView> {
+    return this.db.transaction(async (tx) => {
+      const wishlist = await this.ensureWishlist(tx, userId);
+      const [updated] = await tx.update(wishlists)
+        .set({ shareToken: shared ? wishlist.shareToken ?? randomBytes(18).toString("base64url") : null })
+        .where(eq(wishlists.id, wishlist.id))
+        .returning();
+      return this.wishlistView(tx, updated);
+    });
+  }
+
+  // The read-only view behind a share link leaves out products not on sale
+  async getSharedWishlist(shareToken: string): Promise<SharedWishlist | undefined> {
+    const [row] = await this.db.select({ wishlist: wishlists, ownerName: users.username })
+      .from(wishlists)
+      .innerJoin(users, eq(users.id, wishlists.userId))
+      .where(eq(wishlists.shareToken, shareToken))
+      .limit(1);
+    if (!row) return undefined;
+
+    const { items } = await this.wishlistView(this.db, row.wishlist, { listedOnly: true });
+    return { ownerName: row.ownerName, items };
+  }
+
+  private async findWishlist(db: Database | Transaction, userId: string): Promise<Wishlist | undefined> {
+    const result = await db.select().from(wishlists).where(eq(wishlists.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  private async ensureWishlist(tx: Transaction, userId: string): Promise<Wishlist> {
+    await tx.insert(wishlists).values({ userId }).onConflictDoNothing();
+    return (await this.findWishlist(tx, userId))!;
+  }
+
+  // Newest first. Trashed products drop out; inactive ones stay on the
+  // owner's list so they can be removed.
+  private async wishlistView(
+    db: Database | Transaction,
+    wishlist: Wishlist | undefined,
+    options?: { listedOnly?: boolean },
+  ): Promise<WishlistView> {
+    if (!wishlist) return { shareToken: null, items: [] };
+
+    const conditions = [eq(wishlistItems.wishlistId, wishlist.id), isNull(products.deletedAt)];
+    if (options?.listedOnly) {
+      conditions.push(eq(products.isActive, true));
+    }
+    const rows = await db.select({ product: productColumns, addedAt: wishlistItems.createdAt })
+      .from(wishlistItems)
+      .innerJoin(products, eq(wishlistItems.productId, products.id))
+      .where(and(...conditions))
+      .orderBy(desc(wishlistItems.createdAt), desc(wishlistItems.id));
+
+    return { shareToken: wishlist.shareToken, items: rows as WishlistEntry[] };
+  }
+
+  // Review methods
+  async getReviews(filters?: { productId?: string; status?: ReviewStatus }): Promise<ReviewWithAuthor[]> {
+    const conditions: SQL[] = [];
+    if (filters?.productId) conditions.push(eq(reviews.productId, filters.productId));
+    if (filters?.status) conditions.push(eq(reviews.status, filters.status));
+
+    return this.db
+      .select({ ...getTableColumns(reviews), username: users.username, productName: products.name })
+      .from(reviews)
+      .innerJoin(users, eq(users.id, reviews.userId))
+      .innerJoin(products, eq(products.id, reviews.productId))
+      .where(and(...conditions))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    const result = await this.db.select().from(reviews).where(eq(reviews.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserReview(userId: string, productId: string): Promise<Review | undefined> {
+    const result = await this.db.select().from(reviews)
+      .where(and(eq(reviews.userId, userId), eq(reviews.productId, productId)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Only paid orders count; pending ones may still be declined
+  async hasPurchasedProduct(userId: string, productId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: orderItems.id })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .where(and(
+        eq(orders.userId, userId),
+        eq(orderItems.productId, productId),
+        inArray(orders.status, ["processing", "shipped", "delivered"]),
+      ))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async createReview(review: InsertReview & { productId: string; userId: string }): Promise<Review> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.insert(reviews).values(review).returning();
+      await this.refreshProductRating(tx, review.productId);
+      return result[0];
+    });
+  }
+
+  async updateReview(id: string, review: Partial<InsertReview>): Promise<Review | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Edited reviews go back through moderation
+      const result = await tx.update(reviews)
+        .set({ ...review, status: "pending", updatedAt: new Date() })
+        .where(eq(reviews.id, id))
+        .returning();
+      if (!result[0]) return undefined;
+      await this.refreshProductRating(tx, result[0].productId);
+      return result[0];
+    });
+  }
+
+  async setReviewStatus(id: string, status: ReviewStatus): Promise<Review | undefined> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.update(reviews).set({ status }).where(eq(reviews.id, id)).returning();
+      if (!result[0]) return undefined;
+      await this.refreshProductRating(tx, result[0].productId);
+      return result[0];
+    });
+  }
+
+  async deleteReview(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.delete(reviews).where(eq(reviews.id, id)).returning({ productId: reviews.productId });
+      if (!result[0]) return false;
+      await this.refreshProductRating(tx, result[0].productId);
+      return true;
+    });
+  }
+
+  // Recomputes the product's rating aggregate from its approved reviews. The
+  // row lock serializes concurrent review changes on the same product.
+  private async refreshProductRating(tx: Transaction, productId: string): Promise<void> {
+    await tx.select({ id: products.id }).from(products).where(eq(products.id, productId)).for("update");
+
+    const [aggregate] = await tx
+      .select({
+        rating: sql<string>`coalesce(round(avg(${reviews.rating}), 1), 0)::text`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(reviews)
+      .where(and(eq(reviews.productId, productId), eq(reviews.status, "approved")));
+
+    await tx.update(products)
+      .set({ rating: aggregate.rating, reviewCount: aggregate.count })
+      .where(eq(products.id, productId));
+  }
 }
 
 // Always use database storage
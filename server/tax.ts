@@ -0,0 +1,41 @@
+import type { Category, Destination, Product, TaxRule } from "@shared/schema";
+
+// Tax rules are looked up per order line: the line's tax class comes from the
+// product, falling back to its category, and the destination picks the rule.
+
+export function taxClassFor(product: Product, categories: Category[]): string | null {
+  if (product.taxClassId) return product.taxClassId;
+  return categories.find((c) => c.id === product.categoryId)?.taxClassId ?? null;
+}
+
+function specificity(rule: TaxRule): number {
+  // A postal prefix outranks a region, which outranks the country alone;
+  // longer prefixes are more specific than shorter ones
+  return (rule.postalPrefix ? 100 + rule.postalPrefix.length : 0) + (rule.region ? 10 : 0);
+}
+
+export function findTaxRule(rules: TaxRule[], taxClassId: string | null, destination: Destination): TaxRule | undefined {
+  const postalCode = destination.postalCode?.replace(/\s+/g, "") ?? "";
+  return rules
+    .filter((rule) =>
+      rule.isActive
+      && rule.taxClassId === taxClassId
+      && rule.country === destination.country
+      && (!rule.region || rule.region === destination.region)
+      && (!rule.postalPrefix || postalCode.startsWith(rule.postalPrefix)))
+    .sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)[0];
+}
+
+// Tax on an amount in cents. For tax-inclusive rules the tax is the part of
+// the amount that is already tax; otherwise it is added on top.
+export function taxOn(amountCents: number, rule: TaxRule | undefined): number {
+  if (!rule) return 0;
+  const rate = Number(rule.rate) / 100;
+  return rule.priceIncludesTax
+    ? Math.round(amountCents - amountCents / (1 + rate))
+    : Math.round(amountCents * rate);
+}
+
+// Carts quoted before the customer gives an address are taxed as if shipped
+// within the store's own country
+export const STORE_DESTINATION: Destination = { country: (process.env.STORE_COUNTRY || "US").toUpperCase() };
@@ -1,81 +1,712 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, integer, timestamp, boolean, jsonb, index, uniqueIndex, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Postgres full-text document; maintained by the trigger in scripts/setup-search.ts
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   role: text("role").notNull().default("user"), // "user" or "admin"
+  taxExempt: boolean("tax_exempt").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Groups of goods taxed alike, e.g. "Reduced rate" or "Zero rated".
+// Products and categories without a class are standard-rated.
+export const taxClasses = pgTable("tax_classes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
+  slug: text("slug").notNull().unique(), // used in /category/:slug URLs
+  parentId: varchar("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "set null" }), // null for top-level categories
   description: text("description"),
   icon: text("icon").default("fas fa-box"),
+  taxClassId: varchar("tax_class_id").references(() => taxClasses.id, { onDelete: "set null" }),
+  deletedAt: timestamp("deleted_at"), // set while the category is in the trash
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// An option axis such as { name: "Size", values: ["S", "M", "L"] }
+export type ProductOption = { name: string; values: string[] };
+
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   description: text("description"),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   image: text("image").notNull(),
-  categoryId: varchar("category_id").references(() => categories.id),
-  stock: integer("stock").notNull().default(0),
+  categoryId: varchar("category_id").references(() => categories.id, { onDelete: "set null" }),
+  stock: integer("stock").notNull().default(0), // sum of variant stock when the product has variants
+  options: jsonb("options").$type<ProductOption[]>().notNull().default([]),
+  taxClassId: varchar("tax_class_id").references(() => taxClasses.id, { onDelete: "set null" }), // overrides the category's class
+  weight: decimal("weight", { precision: 10, scale: 3 }), // kg
+  length: decimal("length", { precision: 10, scale: 2 }), // cm
+  width: decimal("width", { precision: 10, scale: 2 }), // cm
+  height: decimal("height", { precision: 10, scale: 2 }), // cm
   rating: decimal("rating", { precision: 2, scale: 1 }).default("0.0"),
   reviewCount: integer("review_count").default(0),
   isActive: boolean("is_active").default(true),
+  deletedAt: timestamp("deleted_at"), // set while the product is in the trash
+  searchVector: tsvector("search_vector"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("products_search_vector_idx").using("gin", table.searchVector),
+  index("products_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
+
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  sku: text("sku").notNull().unique(),
+  options: jsonb("options").$type<Record<string, string>>().notNull(), // e.g. { Size: "M", Color: "Red" }
+  price: decimal("price", { precision: 10, scale: 2 }), // null means the product price
+  stock: integer("stock").notNull().default(0),
+  image: text("image"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("product_variants_product_id_idx").on(table.productId),
+]);
+
+export const productMedia = pgTable("product_media", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  url: text("url").notNull(),
+  alt: text("alt"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isPrimary: boolean("is_primary").notNull().default(false), // mirrored into products.image
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("product_media_product_id_idx").on(table.productId),
+]);
+
+export const reviewStatuses = ["pending", "approved", "hidden"] as const;
+
+// Only approved reviews count towards products.rating and products.reviewCount
+export const reviews = pgTable("reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  rating: integer("rating").notNull(), // 1 to 5
+  title: text("title"),
+  body: text("body"),
+  status: text("status").notNull().default("pending"), // "pending", "approved", "hidden"
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("reviews_product_user_idx").on(table.productId, table.userId),
+]);
+
+// A customer's saved address book; at most one address per user is the default
+export const addresses = pgTable("addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  label: text("label"), // e.g. "Home", "Work"
+  fullName: text("full_name").notNull(),
+  company: text("company"),
+  line1: text("line1").notNull(),
+  line2: text("line2"),
+  city: text("city").notNull(),
+  region: text("region"), // state or province code
+  postalCode: text("postal_code"),
+  country: text("country").notNull(), // ISO 3166-1 alpha-2
+  phone: text("phone"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("addresses_user_id_idx").on(table.userId),
+  uniqueIndex("addresses_user_default_idx").on(table.userId).where(sql`${table.isDefault}`),
+]);
+
+// Orders keep a copy of the address as it was at checkout, so editing or
+// deleting an address book entry never changes where an order went
+export type PostalAddress = {
+  fullName: string;
+  company: string | null;
+  line1: string;
+  line2: string | null;
+  city: string;
+  region: string | null;
+  postalCode: string | null;
+  country: string;
+  phone: string | null;
+};
+
+// The most specific active rule matching the destination wins: postal prefix,
+// then region, then country alone, with priority breaking ties.
+export const taxRules = pgTable("tax_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  taxClassId: varchar("tax_class_id").references(() => taxClasses.id, { onDelete: "cascade" }), // null for standard-rated goods
+  country: text("country").notNull(), // ISO 3166-1 alpha-2
+  region: text("region"), // state or province code
+  postalPrefix: text("postal_prefix"),
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull(), // percent
+  priceIncludesTax: boolean("price_includes_tax").notNull().default(false),
+  priority: integer("priority").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("tax_rules_country_idx").on(table.country),
+]);
+
+// A zone covers whole countries, or only some regions of them when regions
+// are listed. Zones that list regions win over country-wide ones.
+export const shippingZones = pgTable("shipping_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  countries: jsonb("countries").$type<string[]>().notNull().default([]), // ISO 3166-1 alpha-2
+  regions: jsonb("regions").$type<string[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const shippingRateTypes = ["flat", "weight", "price_tiered", "free_over"] as const;
+
+// A price tier applies from its minimum order subtotal upwards
+export type ShippingRateTier = { minSubtotal: number; rate: number };
+
+export const shippingMethods = pgTable("shipping_methods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  zoneId: varchar("zone_id").references(() => shippingZones.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(), // e.g. "Standard", "Express", "Store pickup"
+  description: text("description"),
+  rateType: text("rate_type").notNull(), // "flat", "weight", "price_tiered", "free_over"
+  baseRate: decimal("base_rate", { precision: 10, scale: 2 }).notNull().default("0"),
+  perKgRate: decimal("per_kg_rate", { precision: 10, scale: 2 }).notNull().default("0"), // weight rates only
+  tiers: jsonb("tiers").$type<ShippingRateTier[]>().notNull().default([]), // price_tiered only
+  freeThreshold: decimal("free_threshold", { precision: 10, scale: 2 }), // free_over only
+  minDays: integer("min_days"),
+  maxDays: integer("max_days"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const couponTypes = ["percentage", "fixed", "free_shipping"] as const;
+
+export const coupons = pgTable("coupons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // stored upper-case
+  description: text("description"),
+  type: text("type").notNull(), // "percentage", "fixed", "free_shipping"
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"), // percent or amount off
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  usageLimit: integer("usage_limit"), // across all customers
+  perCustomerLimit: integer("per_customer_limit"),
+  usageCount: integer("usage_count").notNull().default(0),
+  // Empty lists mean the coupon applies to the whole cart
+  productIds: jsonb("product_ids").$type<string[]>().notNull().default([]),
+  categoryIds: jsonb("category_ids").$type<string[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  couponId: varchar("coupon_id").references(() => coupons.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id), // null for guest orders, see orders.customerEmail
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("coupon_redemptions_coupon_user_idx").on(table.couponId, table.userId),
+]);
+
+export const orderStatuses = ["pending", "processing", "shipped", "delivered", "cancelled", "refunded"] as const;
+
+// The statuses an order may move to from each status. Cancelled and refunded
+// orders are final. A pending order only reaches processing when its payment
+// succeeds, never by hand.
+export const orderStatusTransitions: Record<typeof orderStatuses[number], readonly (typeof orderStatuses[number])[]> = {
+  pending: ["cancelled"],
+  processing: ["shipped", "cancelled", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id).notNull(),
+  userId: varchar("user_id").references(() => users.id), // null for guest checkouts until claimed
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  couponCode: text("coupon_code"),
+  shippingMethodId: varchar("shipping_method_id").references(() => shippingMethods.id, { onDelete: "set null" }),
+  shippingMethodName: text("shipping_method_name"), // kept in case the method is later removed
+  shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
   status: text("status").notNull().default("pending"), // "pending", "processing", "shipped", "delivered", "cancelled"
   customerEmail: text("customer_email"),
+  shippingAddress: jsonb("shipping_address").$type<PostalAddress>(), // null on orders placed before addresses
+  billingAddress: jsonb("billing_address").$type<PostalAddress>(),
+  // Guest orders only: hash of the token that lets the guest look the order up
+  lookupTokenHash: text("lookup_token_hash").unique(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Stored responses of requests sent with an Idempotency-Key, replayed when the
+// same request is retried. See server/idempotency.ts.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Whose key it is: "user:<id>" when signed in, else "cart:<cart token>" for
+  // a guest with a cart, else "guest:<fingerprint>"
+  scope: text("scope").notNull(),
+  key: text("key").notNull(),
+  fingerprint: text("fingerprint").notNull(), // hash of the method, path and body
+  responseStatus: integer("response_status"), // null while the first request is still running
+  responseBody: jsonb("response_body"), // guest lookup tokens are blanked out, never stored
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  uniqueIndex("idempotency_keys_scope_key_idx").on(table.scope, table.key),
+  index("idempotency_keys_expires_at_idx").on(table.expiresAt),
+]);
+
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status"), // null for the order being placed
+  toStatus: text("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }), // null for system changes, e.g. a payment webhook
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("order_status_history_order_id_idx").on(table.orderId),
+]);
+
+export const paymentStatuses = ["requires_action", "succeeded", "failed", "cancelled", "partially_refunded", "refunded"] as const;
+
+// One row per payment attempt; an order can have several failed attempts
+// before one succeeds
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  provider: text("provider").notNull(), // e.g. "mock"
+  providerRef: text("provider_ref").notNull(), // the provider's id for the payment intent
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  status: text("status").notNull(), // "requires_action", "succeeded", "failed", "cancelled", "partially_refunded", "refunded"
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  failureMessage: text("failure_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("payments_order_id_idx").on(table.orderId),
+  uniqueIndex("payments_provider_ref_idx").on(table.provider, table.providerRef),
+]);
+
+// Webhook events already handled, so redelivered events are ignored
+export const paymentEvents = pgTable("payment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  eventId: text("event_id").notNull(),
+  type: text("type").notNull(),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("payment_events_provider_event_idx").on(table.provider, table.eventId),
+]);
+
 export const orderItems = pgTable("order_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").references(() => orders.id).notNull(),
-  productId: varchar("product_id").references(() => products.id).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }), // null once the product is deleted
+  variantId: varchar("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  // Copied from the catalog at purchase so the order reads the same after the
+  // product changes or goes away; null on items ordered before snapshots
+  productName: text("product_name"),
+  variantLabel: text("variant_label"),
+  sku: text("sku"),
+  image: text("image"),
+  categoryName: text("category_name"),
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+// Shopping carts. Signed-in customers have one cart each; guests are known by
+// an unguessable token the browser keeps, until the cart merges on login.
+export const carts = pgTable("carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).unique(),
+  token: text("token").unique(), // guest carts only
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per product or variant; adding the same one again raises the quantity
+export const cartItems = pgTable("cart_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cartId: varchar("cart_id").references(() => carts.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  variantId: varchar("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("cart_items_cart_id_idx").on(table.cartId),
+]);
+
+// One wishlist per customer, created on first save. Guests keep theirs in the
+// browser until it merges on login. A share token makes it readable by link.
+export const wishlists = pgTable("wishlists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  shareToken: text("share_token").unique(), // null unless the customer shared the list
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const wishlistItems = pgTable("wishlist_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  wishlistId: varchar("wishlist_id").references(() => wishlists.id, { onDelete: "cascade" }).notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("wishlist_items_wishlist_product_idx").on(table.wishlistId, table.productId),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertCategorySchema = createInsertSchema(categories).omit({
+export const categorySlugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
   id: true,
+  deletedAt: true,
   createdAt: true,
+}).extend({
+  // Derived from the name when left out
+  slug: z.string().trim().regex(categorySlugPattern, "Slug may only contain lowercase letters, numbers and single hyphens").optional(),
+});
+
+export const productOptionSchema = z.object({
+  name: z.string().trim().min(1, "Option name is required"),
+  values: z.array(z.string().trim().min(1)).min(1, "Each option needs at least one value"),
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  sku: (schema) => schema.trim().min(1, "SKU is required"),
+  options: z.record(z.string()),
+}).omit({
+  productId: true,
+  createdAt: true,
+}).extend({
+  // Present when editing an existing variant
+  id: z.string().optional(),
+});
+
+export const insertProductMediaSchema = createInsertSchema(productMedia, {
+  url: (schema) => schema.trim().min(1, "Image URL is required"),
+}).omit({
   id: true,
+  productId: true,
   createdAt: true,
 });
 
-export const insertOrderSchema = createInsertSchema(orders).omit({
+const measurementPattern = /^\d+(\.\d+)?$/;
+
+export const insertProductSchema = createInsertSchema(products, {
+  options: z.array(productOptionSchema),
+  weight: (schema) => schema.regex(measurementPattern, "Weight must be a number of kilograms"),
+  length: (schema) => schema.regex(measurementPattern, "Length must be a number of centimetres"),
+  width: (schema) => schema.regex(measurementPattern, "Width must be a number of centimetres"),
+  height: (schema) => schema.regex(measurementPattern, "Height must be a number of centimetres"),
+}).omit({
   id: true,
+  searchVector: true,
+  // Kept in step with approved reviews by refreshProductRating
+  rating: true,
+  reviewCount: true,
+  deletedAt: true,
   createdAt: true,
+}).extend({
+  variants: z.array(insertProductVariantSchema).optional(),
+  media: z.array(insertProductMediaSchema).optional(),
+});
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: (schema) => schema.int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  title: (schema) => schema.trim().max(120),
+  body: (schema) => schema.trim().max(2000),
+}).pick({
+  rating: true,
+  title: true,
+  body: true,
 });
 
+export const reviewStatusSchema = z.object({
+  status: z.enum(reviewStatuses),
+});
+
+export const insertTaxClassSchema = createInsertSchema(taxClasses, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const countryCodeSchema = z.string().trim().length(2, "Use a two-letter country code").transform((code) => code.toUpperCase());
+
+export const insertTaxRuleSchema = createInsertSchema(taxRules, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  country: countryCodeSchema,
+  region: z.string().trim().transform((region) => region.toUpperCase() || null).nullish(),
+  postalPrefix: z.string().trim().transform((prefix) => prefix.toUpperCase().replace(/\s+/g, "") || null).nullish(),
+  rate: z.coerce.number().min(0).max(100, "Rate is a percentage").transform((rate) => rate.toFixed(3)),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const codeListSchema = z.array(z.string().trim().min(1).transform((code) => code.toUpperCase()));
+
+export const insertShippingZoneSchema = createInsertSchema(shippingZones, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  countries: codeListSchema.min(1, "Add at least one country"),
+  regions: codeListSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const moneySchema = z.coerce.number().min(0).transform((value) => value.toFixed(2));
+
+export const insertShippingMethodSchema = createInsertSchema(shippingMethods, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  rateType: z.enum(shippingRateTypes),
+  baseRate: moneySchema,
+  perKgRate: moneySchema,
+  tiers: z.array(z.object({
+    minSubtotal: z.coerce.number().min(0),
+    rate: z.coerce.number().min(0),
+  })),
+  freeThreshold: moneySchema.nullish(),
+  minDays: (schema) => schema.int().min(0),
+  maxDays: (schema) => schema.int().min(0),
+}).omit({
+  id: true,
+  zoneId: true,
+  createdAt: true,
+}).refine((method) => method.rateType !== "free_over" || method.freeThreshold != null, {
+  message: "Set the order amount above which shipping is free",
+  path: ["freeThreshold"],
+}).refine((method) => method.rateType !== "price_tiered" || method.tiers.length > 0, {
+  message: "Add at least one price tier",
+  path: ["tiers"],
+});
+
+export const insertCouponSchema = createInsertSchema(coupons, {
+  code: (schema) => schema.trim().min(3, "Code must be at least 3 characters").max(40)
+    .regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, numbers, - and _")
+    .transform((code) => code.toUpperCase()),
+  type: z.enum(couponTypes),
+  value: z.coerce.number().min(0).transform((value) => value.toFixed(2)),
+  minSubtotal: z.coerce.number().min(0).transform((value) => value.toFixed(2)).nullish(),
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+  usageLimit: (schema) => schema.int().min(1),
+  perCustomerLimit: (schema) => schema.int().min(1),
+  productIds: z.array(z.string()),
+  categoryIds: z.array(z.string()),
+}).omit({
+  id: true,
+  usageCount: true,
+  createdAt: true,
+}).refine((coupon) => coupon.type !== "percentage" || Number(coupon.value) <= 100, {
+  message: "A percentage discount cannot exceed 100",
+  path: ["value"],
+}).refine((coupon) => coupon.type === "free_shipping" || Number(coupon.value) > 0, {
+  message: "Discount value is required",
+  path: ["value"],
+}).refine((coupon) => !coupon.startsAt || !coupon.endsAt || coupon.endsAt > coupon.startsAt, {
+  message: "End date must be after the start date",
+  path: ["endsAt"],
+});
+
+export const couponCodeSchema = z.string().trim().min(1, "Enter a promo code").transform((code) => code.toUpperCase());
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+// Order requests carry only what the customer chose; prices come from the catalog
+export const orderLineSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  variantId: z.string().nullish(),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1").max(999),
+});
+
+// Where the order ships; decides which tax rules apply
+export const destinationSchema = z.object({
+  country: countryCodeSchema,
+  region: z.string().trim().toUpperCase().optional(),
+  postalCode: z.string().trim().toUpperCase().optional(),
+});
+
+export const cartQuantitySchema = z.object({
+  quantity: z.coerce.number().int().min(0).max(999), // 0 removes the item
+});
+
+// Replaces the whole cart, e.g. with one kept in the browser before syncing
+export const cartReplaceSchema = z.object({
+  items: z.array(orderLineSchema).max(100, "A cart holds at most 100 items"),
+});
+
+// Checks a cart against the catalog; `price` is the unit price the customer last saw
+export const cartValidationSchema = z.object({
+  items: z.array(orderLineSchema.extend({
+    price: z.coerce.number().min(0),
+  })).max(100, "A cart holds at most 100 items"),
+});
+
+export const wishlistItemSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+});
+
+// Product ids a guest saved before signing in
+export const wishlistMergeSchema = z.object({
+  productIds: z.array(z.string().min(1)).max(200, "A wishlist holds at most 200 items"),
+});
+
+export const wishlistSharingSchema = z.object({
+  shared: z.boolean(),
+});
+
+export const cartIssueTypes = ["unavailable", "price_changed", "insufficient_stock"] as const;
+
+export const orderRequestSchema = z.object({
+  items: z.array(orderLineSchema).min(1, "Order items are required"),
+  couponCode: couponCodeSchema.nullish(),
+  destination: destinationSchema.nullish(),
+  shippingMethodId: z.string().nullish(),
+});
+
+// Postal code formats for the countries we validate offline. Countries listed
+// here require a postal code; any other country accepts any value or none.
+const postalCodeFormats: Record<string, { pattern: RegExp; example: string }> = {
+  US: { pattern: /^\d{5}(-\d{4})?$/, example: "12345 or 12345-6789" },
+  CA: { pattern: /^[ABCEGHJ-NPRSTVXY]\d[A-Z] ?\d[A-Z]\d$/, example: "K1A 0B1" },
+  GB: { pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/, example: "SW1A 1AA" },
+  AU: { pattern: /^\d{4}$/, example: "2000" },
+  NZ: { pattern: /^\d{4}$/, example: "6011" },
+  DE: { pattern: /^\d{5}$/, example: "10115" },
+  FR: { pattern: /^\d{5}$/, example: "75001" },
+  IT: { pattern: /^\d{5}$/, example: "00118" },
+  ES: { pattern: /^\d{5}$/, example: "28001" },
+  NL: { pattern: /^\d{4} ?[A-Z]{2}$/, example: "1012 AB" },
+  BE: { pattern: /^\d{4}$/, example: "1000" },
+  AT: { pattern: /^\d{4}$/, example: "1010" },
+  CH: { pattern: /^\d{4}$/, example: "8001" },
+  SE: { pattern: /^\d{3} ?\d{2}$/, example: "111 22" },
+  PL: { pattern: /^\d{2}-\d{3}$/, example: "00-950" },
+  PT: { pattern: /^\d{4}-\d{3}$/, example: "1000-001" },
+  JP: { pattern: /^\d{3}-?\d{4}$/, example: "100-0001" },
+  IN: { pattern: /^\d{6}$/, example: "110001" },
+  BR: { pattern: /^\d{5}-?\d{3}$/, example: "01000-000" },
+  MX: { pattern: /^\d{5}$/, example: "06000" },
+};
+
+// Countries whose addresses are not deliverable without a state or province
+const countriesRequiringRegion = new Set(["US", "CA", "AU", "BR", "MX", "IN"]);
+
+const optionalText = z.string().trim().max(200).nullish().transform((value) => value || null);
+
+const postalAddressFields = {
+  fullName: z.string().trim().min(1, "Full name is required").max(200),
+  company: optionalText,
+  line1: z.string().trim().min(1, "Street address is required").max(200),
+  line2: optionalText,
+  city: z.string().trim().min(1, "City is required").max(100),
+  region: optionalText.transform((region) => region?.toUpperCase() ?? null),
+  postalCode: optionalText.transform((code) => code?.toUpperCase() ?? null),
+  country: countryCodeSchema,
+  phone: z.string().trim().max(30).regex(/^[+\d\s().-]*$/, "Enter a valid phone number").nullish().transform((value) => value || null),
+};
+
+function checkPostalAddress(address: { country: string; region: string | null; postalCode: string | null }, ctx: z.RefinementCtx) {
+  if (countriesRequiringRegion.has(address.country) && !address.region) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "State / province is required", path: ["region"] });
+  }
+  const format = postalCodeFormats[address.country];
+  if (format && !address.postalCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Postal code is required", path: ["postalCode"] });
+  } else if (format && !format.pattern.test(address.postalCode!)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Postal code should look like ${format.example}`,
+      path: ["postalCode"],
+    });
+  }
+}
+
+export const postalAddressSchema = z.object(postalAddressFields).superRefine(checkPostalAddress);
+
+export const insertAddressSchema = z.object({
+  ...postalAddressFields,
+  label: z.string().trim().max(50).nullish().transform((value) => value || null),
+  isDefault: z.boolean().optional(),
+}).superRefine(checkPostalAddress);
+
+export const insertOrderSchema = createInsertSchema(orders, {
+  shippingAddress: postalAddressSchema.nullish(),
+  billingAddress: postalAddressSchema.nullish(),
+}).omit({
+  id: true,
+  lookupTokenHash: true,
+  createdAt: true,
+});
+
+export const paymentRequestSchema = z.object({
+  paymentMethod: z.string().min(1, "Choose a payment method"),
+});
+
+export const guestEmailSchema = z.string().trim().email("Please enter a valid email");
+
+// Checkout needs where to ship; billing defaults to the shipping address
+export const checkoutRequestSchema = orderRequestSchema.extend({
+  shippingAddress: postalAddressSchema,
+  billingAddress: postalAddressSchema.nullish(),
+  // Guests only; signed-in customers are contacted at their account's email
+  email: guestEmailSchema.optional(),
+}).merge(paymentRequestSchema);
+
+// Lookup tokens of orders placed as a guest; they prove the orders are the
+// customer's when claiming them into an account
+export const orderLookupTokensSchema = z.array(z.string().min(1)).max(50);
+
+export const orderStatusUpdateSchema = z.object({
+  status: z.enum(orderStatuses, { errorMap: () => ({ message: "Unknown order status" }) }),
+  note: z.string().trim().max(500).optional().transform((note) => note || null),
+});
+
+// Refunds the rest of the payment when no amount is given
+export const refundRequestSchema = z.object({
+  amount: z.coerce.number().positive("Refund amount must be positive").optional(),
+});
+
 // Auth schemas
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -84,21 +715,229 @@ export const loginSchema = z.object({
 
 export const registerSchema = insertUserSchema.extend({
   confirmPassword: z.string().min(6),
+  orderTokens: orderLookupTokensSchema.optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
 });
 
+// Product listing query
+export const productSortOptions = ["featured", "price-asc", "price-desc", "rating", "newest"] as const;
+
+// Facet buckets; a null max means "and above"
+export const productPriceBuckets = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: 1000 },
+  { min: 1000, max: null },
+] as const;
+export const productRatingBuckets = [4, 3, 2, 1] as const;
+
+export const productQuerySchema = z.object({
+  // Accepts ?categoryId=a&categoryId=b as well as ?categoryId=a,b
+  categoryId: z.union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : value.split(",")).filter(Boolean))
+    .optional(),
+  // Also match products filed under subcategories of the chosen categories
+  includeDescendants: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  search: z.string().optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  // Price buckets are [min, max), so a bucket's products are exactly its count
+  maxPriceExclusive: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  inStock: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(productSortOptions).default("featured"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
-export type Product = typeof products.$inferSelect;
+export type Product = Omit<typeof products.$inferSelect, "searchVector">;
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductWithVariants = Product & { variants: ProductVariant[] };
+export type ProductMedia = typeof productMedia.$inferSelect;
+export type InsertProductMedia = z.infer<typeof insertProductMediaSchema>;
+export type ProductDetail = ProductWithVariants & { media: ProductMedia[] };
+export type Trash = { products: Product[]; categories: Category[] };
+// Search results carry a highlighted excerpt of the description
+export type ProductSearchResult = Product & { snippet?: string | null };
+export type ProductListItem = ProductSearchResult & { media: ProductMedia[] };
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type ReviewStatus = typeof reviewStatuses[number];
+export type ReviewWithAuthor = Review & { username: string; productName: string };
+export type Address = typeof addresses.$inferSelect;
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type OrderStatus = typeof orderStatuses[number];
+export type OrderStatusChange = typeof orderStatusHistory.$inferSelect & { changedByName: string | null };
+export type OrderItemDetail = OrderItem & { name: string };
+export type OrderDetail = Order & { items: OrderItemDetail[]; history: OrderStatusChange[]; payments: Payment[] };
+export type Payment = typeof payments.$inferSelect;
+export type PaymentStatus = typeof paymentStatuses[number];
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type TaxClass = typeof taxClasses.$inferSelect;
+export type InsertTaxClass = z.infer<typeof insertTaxClassSchema>;
+export type TaxRule = typeof taxRules.$inferSelect;
+export type InsertTaxRule = z.infer<typeof insertTaxRuleSchema>;
+export type Destination = z.infer<typeof destinationSchema>;
+export type ShippingZone = typeof shippingZones.$inferSelect;
+export type InsertShippingZone = z.infer<typeof insertShippingZoneSchema>;
+export type ShippingMethod = typeof shippingMethods.$inferSelect;
+export type InsertShippingMethod = z.infer<typeof insertShippingMethodSchema>;
+export type ShippingRateType = typeof shippingRateTypes[number];
+export type ShippingZoneWithMethods = ShippingZone & { methods: ShippingMethod[] };
+export type ShippingRate = {
+  methodId: string;
+  name: string;
+  description: string | null;
+  cost: number;
+  minDays: number | null;
+  maxDays: number | null;
+};
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type CouponType = typeof couponTypes[number];
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type OrderLine = z.infer<typeof orderLineSchema>;
+export type OrderRequest = z.infer<typeof orderRequestSchema>;
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
+export type OrderQuoteLine = {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  variantLabel: string | null;
+  image: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+  discount: number; // share of the order discount
+  taxRate: number; // percent
+  tax: number;
+};
+export type OrderQuote = {
+  lines: OrderQuoteLine[];
+  subtotal: number;
+  discount: number;
+  couponCode: string | null;
+  shippingMethod: { id: string; name: string } | null;
+  shipping: number;
+  tax: number;
+  includedTax: number; // part of `tax` already contained in tax-inclusive prices
+  total: number;
+};
+// A checkout line that asks for more units than are in stock
+export type StockShortage = {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  requested: number;
+  available: number;
+};
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type Wishlist = typeof wishlists.$inferSelect;
+export type WishlistEntry = { product: Product; addedAt: Date | null };
+export type WishlistView = { shareToken: string | null; items: WishlistEntry[] };
+export type SharedWishlist = { ownerName: string; items: WishlistEntry[] };
+// A cart line as the storefront shows it, priced from the live catalog. `id`
+// is the line key: the product id, or "productId:variantId".
+export type CartLine = {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  name: string;
+  price: number;
+  image: string;
+  quantity: number;
+};
+export type CartView = { token: string | null; items: CartLine[] };
+export type CartValidationLine = z.infer<typeof cartValidationSchema>["items"][number];
+export type CartIssueType = typeof cartIssueTypes[number];
+export type CartIssue = {
+  id: string; // the cart line key
+  productId: string;
+  variantId: string | null;
+  type: CartIssueType;
+  message: string;
+  price?: number; // current unit price, for price changes
+  available?: number; // units in stock, for quantities above stock
+};
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
+export type ProductSort = typeof productSortOptions[number];
+export type ProductQuery = z.infer<typeof productQuerySchema>;
+export type ProductFacets = {
+  categories: { categoryId: string | null; count: number }[];
+  price: { min: number; max: number | null; count: number }[];
+  rating: { min: number; count: number }[];
+  availability: { inStock: number; outOfStock: number };
+};
+export type Paginated<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  nextPage: number | null;
+};
+
+// Category tree helpers, shared by the server and the storefront. Categories
+// whose parent isn't in the list (e.g. it was trashed) are treated as top-level.
+
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function childCategories(categories: Category[], parentId: string | null): Category[] {
+  return categories.filter((category) => parentId === null
+    ? !category.parentId || !categories.some((c) => c.id === category.parentId)
+    : category.parentId === parentId);
+}
+
+// The category and everything below it
+export function descendantCategoryIds(categories: Category[], id: string): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const child of categories) {
+      if (child.parentId === ids[i] && !ids.includes(child.id)) ids.push(child.id);
+    }
+  }
+  return ids;
+}
+
+// Ancestors from the top level down to the category itself
+export function categoryPath(categories: Category[], id: string): Category[] {
+  const path: Category[] = [];
+  let current = categories.find((category) => category.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = categories.find((category) => category.id === current!.parentId);
+  }
+  return path;
+}
+
+// Adds up facet counts over a category and its subcategories
+export function categorySubtreeCount(categories: Category[], counts: ProductFacets["categories"], id: string): number {
+  const ids = descendantCategoryIds(categories, id);
+  return counts.reduce((sum, facet) => sum + (facet.categoryId && ids.includes(facet.categoryId) ? facet.count : 0), 0);
+}